@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+
+/**
+ * Parses a dotenv file: KEY=VALUE lines, optional "export " prefix,
+ * # comments, and single- or double-quoted values (the latter with
+ * \n escapes).
+ */
+export function parseEnvFile(content: string): { [key: string]: string } {
+    const env: { [key: string]: string } = {};
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const match = rawLine.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)?\s*$/);
+        if (!match) {
+            continue;
+        }
+
+        const [, key, rawValue = ''] = match;
+        let value = rawValue.trim();
+        const quote = value[0];
+        if ((quote === '"' || quote === '\'') && value.lastIndexOf(quote) > 0) {
+            value = value.substring(1, value.lastIndexOf(quote));
+            if (quote === '"') {
+                value = value.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+            }
+        } else {
+            // Unquoted values end at an inline comment
+            value = value.replace(/\s+#.*$/, '');
+        }
+        env[key] = value;
+    }
+
+    return env;
+}
+
+/** Reads a dotenv file; a missing or unreadable file yields no variables. */
+export function loadEnvFile(filePath: string): { [key: string]: string } {
+    try {
+        return parseEnvFile(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        console.error(`Error reading env file ${filePath}:`, error);
+        return {};
+    }
+}
@@ -0,0 +1,164 @@
+// Flags understood by the compiled test binary (passed as -test.<name>).
+// Everything else in a profile's testFlags is treated as a build flag.
+const TEST_BINARY_FLAGS = new Set([
+    'bench',
+    'benchmem',
+    'benchtime',
+    'blockprofile',
+    'blockprofilerate',
+    'count',
+    'coverprofile',
+    'cpu',
+    'cpuprofile',
+    'failfast',
+    'fullpath',
+    'fuzz',
+    'fuzzminimizetime',
+    'fuzztime',
+    'list',
+    'memprofile',
+    'memprofilerate',
+    'mutexprofile',
+    'mutexprofilefraction',
+    'outputdir',
+    'parallel',
+    'run',
+    'short',
+    'shuffle',
+    'skip',
+    'timeout',
+    'trace',
+    'v'
+]);
+
+// Build and go test flags that are not passed on to the test binary
+const GO_TEST_FLAGS = new Set([
+    'a',
+    'asan',
+    'asmflags',
+    'buildmode',
+    'buildvcs',
+    'c',
+    'compiler',
+    'cover',
+    'covermode',
+    'coverpkg',
+    'exec',
+    'gccgoflags',
+    'gcflags',
+    'installsuffix',
+    'json',
+    'ldflags',
+    'linkshared',
+    'mod',
+    'modcacherw',
+    'modfile',
+    'msan',
+    'n',
+    'o',
+    'overlay',
+    'p',
+    'pgo',
+    'pkgdir',
+    'race',
+    'tags',
+    'toolexec',
+    'trimpath',
+    'vet',
+    'work',
+    'x'
+]);
+
+const BOOLEAN_GO_TEST_FLAGS = new Set(['a', 'asan', 'c', 'cover', 'json', 'linkshared', 'modcacherw', 'msan', 'n', 'race', 'trimpath', 'work', 'x']);
+
+export interface SplitTestFlags {
+    buildFlags: string[];
+    testBinaryFlags: string[];
+}
+
+export function getFlagName(flag: string): string | undefined {
+    const match = flag.match(/^--?([A-Za-z][\w.-]*)/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Splits `go test` flags into the flags for `go test -c` and the flags for
+ * running the resulting binary directly (rewritten to their -test.* form).
+ */
+export function splitTestFlags(flags: string[]): SplitTestFlags {
+    const buildFlags: string[] = [];
+    const testBinaryFlags: string[] = [];
+
+    for (let i = 0; i < flags.length; i++) {
+        const flag = flags[i];
+        const name = getFlagName(flag);
+
+        if (!name || !TEST_BINARY_FLAGS.has(name)) {
+            buildFlags.push(flag);
+            continue;
+        }
+
+        const value = flag.includes('=') ? flag.substring(flag.indexOf('=')) : '';
+        testBinaryFlags.push(`-test.${name}${value}`);
+
+        // Flags given as "-run Name" carry their value in the next argument
+        if (!value && i + 1 < flags.length && !flags[i + 1].startsWith('-') && !isBooleanTestFlag(name)) {
+            testBinaryFlags.push(flags[++i]);
+        }
+    }
+
+    return { buildFlags, testBinaryFlags };
+}
+
+function isBooleanTestFlag(name: string): boolean {
+    return name === 'v' || name === 'short' || name === 'failfast' || name === 'benchmem' || name === 'fullpath';
+}
+
+/** Splits a command-line style string into flags, honouring single and double quotes. */
+export function parseFlagString(input: string): string[] {
+    const flags: string[] = [];
+    const regex = /(?:[^\s"']+|"[^"]*"|'[^']*')+/g;
+    for (const match of input.match(regex) ?? []) {
+        flags.push(match.replace(/(["'])(.*?)\1/g, '$2'));
+    }
+    return flags;
+}
+
+/**
+ * Checks profile flags against the flags go test knows. Returns one message
+ * per problem; an empty list means the flags are valid.
+ */
+export function validateTestFlags(flags: string[]): string[] {
+    const problems: string[] = [];
+
+    for (let i = 0; i < flags.length; i++) {
+        const flag = flags[i];
+        const name = getFlagName(flag);
+        if (!name) {
+            problems.push(`"${flag}" is not a flag; packages are chosen by the test run`);
+            continue;
+        }
+
+        const baseName = name.startsWith('test.') ? name.substring('test.'.length) : name;
+        if (!TEST_BINARY_FLAGS.has(baseName) && !GO_TEST_FLAGS.has(name)) {
+            problems.push(`Unknown go test flag "-${name}"`);
+            continue;
+        }
+        if (name === 'json' || name === 'c' || name === 'o') {
+            problems.push(`"-${name}" is set by the test runner and cannot be used in a profile`);
+            continue;
+        }
+
+        // "-flag value" consumes the next argument unless the flag is boolean
+        const isBoolean = isBooleanTestFlag(baseName) || BOOLEAN_GO_TEST_FLAGS.has(name);
+        if (!flag.includes('=') && !isBoolean) {
+            if (i + 1 >= flags.length || flags[i + 1].startsWith('-')) {
+                problems.push(`"-${name}" needs a value`);
+            } else {
+                i++;
+            }
+        }
+    }
+
+    return problems;
+}
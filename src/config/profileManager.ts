@@ -1,15 +1,42 @@
 import * as vscode from 'vscode';
-import { TestProfile } from '../models/testProfile';
+import * as path from 'path';
+import { TestProfile, PackageOverride, EffectiveTestConfig } from '../models/testProfile';
+import { loadEnvFile } from './envFile';
+import { resolveVariables, resolveVariablesInEnv } from './variables';
+
+/** A settings scope of goTestRunner.profiles; folder settings also name their folder. */
+export interface ProfilesTarget {
+    target: vscode.ConfigurationTarget;
+    folder?: vscode.WorkspaceFolder;
+}
 
 export class ProfileManager {
-    private activeProfile: TestProfile;
+    private activeProfileName: string;
+    private reportedProblems: Set<string> = new Set();
 
     constructor() {
-        this.activeProfile = this.loadActiveProfile();
+        this.activeProfileName = this.loadActiveProfile().name;
     }
 
+    /** Returns the active profile with its extends chain resolved. */
     getActiveProfile(): TestProfile {
-        return this.activeProfile;
+        return this.getProfile(this.activeProfileName) ?? this.getProfile(this.getProfiles()[0].name)!;
+    }
+
+    /** Returns a profile by name with its extends chain resolved. */
+    getProfile(name: string): TestProfile | undefined {
+        const profiles = this.getProfiles();
+        const profile = profiles.find(p => p.name === name);
+        return profile && this.resolveProfile(profile, profiles);
+    }
+
+    getActiveProfileName(): string {
+        return this.getActiveProfile().name;
+    }
+
+    setActiveProfile(name: string): void {
+        this.activeProfileName = name;
+        this.saveActiveProfile(name);
     }
 
     async selectProfile(): Promise<TestProfile | undefined> {
@@ -17,7 +44,7 @@ export class ProfileManager {
         
         const items = profiles.map(p => ({
             label: p.name,
-            description: p.testFlags.join(' '),
+            description: p.extends ? `extends ${p.extends} ${p.testFlags.join(' ')}` : p.testFlags.join(' '),
             profile: p
         }));
 
@@ -26,23 +53,202 @@ export class ProfileManager {
         });
 
         if (selected) {
-            this.activeProfile = selected.profile;
+            this.activeProfileName = selected.profile.name;
             this.saveActiveProfile(selected.profile.name);
-            return selected.profile;
+            return this.resolveProfile(selected.profile, profiles);
         }
 
         return undefined;
     }
 
-    private getProfiles(): TestProfile[] {
-        const config = vscode.workspace.getConfiguration('goTestRunner');
+    /**
+     * Builds the flags and environment for testing a package: the profile's
+     * testFlags, then flags for buildTags/timeout/count/shuffle, with
+     * matching per-package overrides applied on top. Variables resolve
+     * against the workspace folder containing cwd.
+     */
+    getEffectiveConfig(pkg?: string, profile: TestProfile = this.getActiveProfile(), cwd?: string): EffectiveTestConfig {
+        const folder = cwd ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(cwd)) : undefined;
+        const overrides = pkg
+            ? (profile.overrides ?? []).filter(o => o.packages.some(glob => matchPackageGlob(glob, pkg)))
+            : [];
+
+        let settings: Omit<PackageOverride, 'packages' | 'testFlags' | 'testEnvVars'> = {
+            buildTags: profile.buildTags,
+            timeout: profile.timeout,
+            count: profile.count,
+            shuffle: profile.shuffle
+        };
+        const extraFlags: string[] = [];
+        let env = { ...this.loadEnvFiles(profile, folder), ...resolveVariablesInEnv(profile.testEnvVars, folder) };
+
+        for (const override of overrides) {
+            settings = {
+                ...settings,
+                ...withoutUndefined({ buildTags: override.buildTags, timeout: override.timeout, count: override.count, shuffle: override.shuffle })
+            };
+            extraFlags.push(...(override.testFlags ?? []));
+            env = { ...env, ...resolveVariablesInEnv(override.testEnvVars ?? {}, folder) };
+        }
+
+        const testFlags = [...profile.testFlags];
+        if (settings.buildTags && settings.buildTags.length > 0) {
+            testFlags.push(`-tags=${settings.buildTags.join(',')}`);
+        }
+        if (settings.timeout) {
+            testFlags.push(`-timeout=${settings.timeout}`);
+        }
+        if (settings.count !== undefined) {
+            testFlags.push(`-count=${settings.count}`);
+        }
+        if (settings.shuffle !== undefined) {
+            testFlags.push(`-shuffle=${settings.shuffle}`);
+        }
+        testFlags.push(...extraFlags);
+
+        return { profile: profile.name, testFlags: testFlags.map(flag => resolveVariables(flag, folder)), testEnvVars: env };
+    }
+
+    /** Opens the active profile, after inheritance and variable substitution, as a JSON document. */
+    async showEffectiveProfile(): Promise<void> {
+        const profile = this.getActiveProfile();
+        const config = this.getEffectiveConfig(undefined, profile);
+        const folder = vscode.workspace.workspaceFolders?.[0];
+
+        const effective = {
+            name: profile.name,
+            testFlags: config.testFlags,
+            envFiles: this.getEnvFilePaths(profile, folder),
+            testEnvVars: config.testEnvVars,
+            ...(profile.packages ? { packages: profile.packages } : {}),
+            ...(profile.overrides?.length ? {
+                overrides: profile.overrides.map(override => ({
+                    ...override,
+                    ...(override.testFlags ? { testFlags: override.testFlags.map(flag => resolveVariables(flag, folder)) } : {}),
+                    ...(override.testEnvVars ? { testEnvVars: resolveVariablesInEnv(override.testEnvVars, folder) } : {})
+                }))
+            } : {}),
+            ...(profile.autoExportReport ? { autoExportReport: true } : {})
+        };
+
+        const document = await vscode.workspace.openTextDocument({
+            language: 'json',
+            content: JSON.stringify(effective, null, 2) + '\n'
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    /** Applies the profile's packages include/exclude globs to an import path. */
+    isPackageIncluded(pkg: string, profile: TestProfile = this.getActiveProfile()): boolean {
+        const include = profile.packages?.include ?? [];
+        const exclude = profile.packages?.exclude ?? [];
+        if (include.length > 0 && !include.some(glob => matchPackageGlob(glob, pkg))) {
+            return false;
+        }
+        return !exclude.some(glob => matchPackageGlob(glob, pkg));
+    }
+
+    /** True when packages may need different flags, so ./... cannot be used. */
+    hasPackageRules(profile: TestProfile = this.getActiveProfile()): boolean {
+        return !!(profile.packages?.include?.length || profile.packages?.exclude?.length || profile.overrides?.length);
+    }
+
+    /** Profiles as configured, for a workspace folder when given (folder settings override the workspace's). */
+    getProfiles(folder?: vscode.WorkspaceFolder): TestProfile[] {
+        const config = vscode.workspace.getConfiguration('goTestRunner', folder?.uri);
         const profiles = config.get<TestProfile[]>('profiles');
         
         if (!profiles || profiles.length === 0) {
             return this.getDefaultProfiles();
         }
         
-        return profiles;
+        // Profiles that extend another may leave out flags and env vars
+        return profiles.map(p => ({ ...p, testFlags: p.testFlags ?? [], testEnvVars: p.testEnvVars ?? {} }));
+    }
+
+    /**
+     * Returns where goTestRunner.profiles is set, most specific scope first, so
+     * edits go back to the same place. Undefined when only the built-in
+     * default profiles exist.
+     */
+    getProfilesTarget(): ProfilesTarget | undefined {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const inspected = vscode.workspace.getConfiguration('goTestRunner', folder.uri).inspect<TestProfile[]>('profiles');
+            if (inspected?.workspaceFolderValue !== undefined) {
+                return { target: vscode.ConfigurationTarget.WorkspaceFolder, folder };
+            }
+        }
+        const inspected = vscode.workspace.getConfiguration('goTestRunner').inspect<TestProfile[]>('profiles');
+        if (inspected?.workspaceValue !== undefined) {
+            return { target: vscode.ConfigurationTarget.Workspace };
+        }
+        if (inspected?.globalValue !== undefined) {
+            return { target: vscode.ConfigurationTarget.Global };
+        }
+        return undefined;
+    }
+
+    async saveProfiles(profiles: TestProfile[], { target, folder }: ProfilesTarget): Promise<void> {
+        // Folder settings can only be written through a configuration scoped to that folder
+        const config = vscode.workspace.getConfiguration('goTestRunner', folder?.uri);
+        await config.update('profiles', profiles, target);
+    }
+
+    /**
+     * Merges a profile with the profiles it extends. Parent testFlags come
+     * first so the child's flags win; env vars and overrides are merged and
+     * every other field is replaced.
+     */
+    private resolveProfile(profile: TestProfile, profiles: TestProfile[], seen: Set<string> = new Set()): TestProfile {
+        if (!profile.extends) {
+            return profile;
+        }
+
+        seen.add(profile.name);
+        const parent = profiles.find(p => p.name === profile.extends);
+        if (!parent || seen.has(parent.name)) {
+            this.reportProblem(parent
+                ? `Test profile "${profile.name}" has an extends cycle through "${parent.name}"`
+                : `Test profile "${profile.name}" extends unknown profile "${profile.extends}"`);
+            return { ...profile, extends: undefined };
+        }
+
+        const base = this.resolveProfile(parent, profiles, seen);
+        return {
+            ...base,
+            ...withoutUndefined(profile),
+            extends: undefined,
+            testFlags: [...base.testFlags, ...profile.testFlags],
+            testEnvVars: { ...base.testEnvVars, ...profile.testEnvVars },
+            overrides: [...(base.overrides ?? []), ...(profile.overrides ?? [])],
+            envFile: [...toArray(base.envFile), ...toArray(profile.envFile)],
+            // The child keeps its own report setting only when it sets one
+            autoExportReport: profile.autoExportReport ?? base.autoExportReport
+        };
+    }
+
+    private reportProblem(message: string): void {
+        // Profiles are resolved for every run, so each problem is shown once
+        if (!this.reportedProblems.has(message)) {
+            this.reportedProblems.add(message);
+            vscode.window.showWarningMessage(message);
+        }
+    }
+
+    /** Loads the profile's dotenv files in order; later files override earlier ones. */
+    private loadEnvFiles(profile: TestProfile, folder?: vscode.WorkspaceFolder): { [key: string]: string } {
+        return this.getEnvFilePaths(profile, folder)
+            .reduce((env, filePath) => ({ ...env, ...loadEnvFile(filePath) }), {} as { [key: string]: string });
+    }
+
+    private getEnvFilePaths(profile: TestProfile, folder?: vscode.WorkspaceFolder): string[] {
+        const workspaceFolder = folder ?? vscode.workspace.workspaceFolders?.[0];
+        return toArray(profile.envFile).map(file => {
+            const filePath = resolveVariables(file, workspaceFolder);
+            return path.isAbsolute(filePath) || !workspaceFolder
+                ? filePath
+                : path.join(workspaceFolder.uri.fsPath, filePath);
+        });
     }
 
     private getDefaultProfiles(): TestProfile[] {
@@ -80,3 +286,32 @@ export class ProfileManager {
         config.update('defaultProfile', name, vscode.ConfigurationTarget.Workspace);
     }
 }
+
+/** Matches an import path against a glob: "*" within a path element, "**" or "..." across them. */
+export function matchPackageGlob(glob: string, pkg: string): boolean {
+    const pattern = glob
+        .split(/(\*\*|\.\.\.|\*)/)
+        .map(part => {
+            if (part === '**' || part === '...') {
+                return '.*';
+            }
+            if (part === '*') {
+                return '[^/]*';
+            }
+            return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    // "foo/..." also matches "foo" itself, like go list patterns
+    return new RegExp(`^${pattern.replace(/\/\.\*$/, '(/.*)?')}$`).test(pkg);
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Resolves VS Code-style variables in profile values: ${workspaceFolder},
+ * ${workspaceFolder:Name}, ${workspaceFolderBasename}, ${userHome},
+ * ${pathSeparator}, ${env:NAME} and ${config:section.key}. Unknown
+ * variables are left as they are.
+ */
+export function resolveVariables(value: string, folder?: vscode.WorkspaceFolder): string {
+    const workspaceFolder = folder ?? vscode.workspace.workspaceFolders?.[0];
+
+    return value.replace(/\$\{([^}]+)\}/g, (match, variable: string) => {
+        const [name, argument] = splitVariable(variable);
+        switch (name) {
+            case 'workspaceFolder':
+                if (argument) {
+                    const named = vscode.workspace.workspaceFolders?.find(f => f.name === argument);
+                    return named ? named.uri.fsPath : match;
+                }
+                return workspaceFolder ? workspaceFolder.uri.fsPath : match;
+            case 'workspaceFolderBasename':
+                return workspaceFolder ? path.basename(workspaceFolder.uri.fsPath) : match;
+            case 'userHome':
+                return os.homedir();
+            case 'pathSeparator':
+                return path.sep;
+            case 'env':
+                return argument ? process.env[argument] ?? '' : match;
+            case 'config': {
+                const setting = argument ? vscode.workspace.getConfiguration().get(argument) : undefined;
+                return setting !== undefined && setting !== null ? String(setting) : match;
+            }
+            default:
+                return match;
+        }
+    });
+}
+
+export function resolveVariablesInEnv(
+    env: { [key: string]: string },
+    folder?: vscode.WorkspaceFolder
+): { [key: string]: string } {
+    const resolved: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(env)) {
+        resolved[key] = resolveVariables(String(value), folder);
+    }
+    return resolved;
+}
+
+function splitVariable(variable: string): [string, string | undefined] {
+    const index = variable.indexOf(':');
+    return index === -1 ? [variable, undefined] : [variable.substring(0, index), variable.substring(index + 1)];
+}
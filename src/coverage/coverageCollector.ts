@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { GoModule, findModuleForImportPath } from '../discovery/moduleDiscovery';
+
+interface CoverBlock {
+    file: string;
+    startLine: number;
+    startCol: number;
+    endLine: number;
+    endCol: number;
+    numStmt: number;
+    count: number;
+}
+
+/**
+ * File coverage that keeps its statement details so they can be handed back
+ * when the editor asks for them via loadDetailedCoverage.
+ */
+export class GoFileCoverage extends vscode.FileCoverage {
+    constructor(
+        uri: vscode.Uri,
+        statementCoverage: vscode.TestCoverageCount,
+        readonly details: vscode.StatementCoverage[]
+    ) {
+        super(uri, statementCoverage);
+    }
+}
+
+/**
+ * Collects the cover profiles written by every `go test` invocation of a run
+ * and publishes them as a single set of FileCoverage results.
+ */
+export class CoverageCollector {
+    private profilePaths: string[] = [];
+
+    constructor(private modules: GoModule[]) {}
+
+    /** Returns a fresh -coverprofile flag for one `go test` invocation. */
+    createCoverProfileArg(): string {
+        const file = path.join(
+            os.tmpdir(),
+            `go-test-runner-${process.pid}-${Date.now()}-${this.profilePaths.length}.cover`
+        );
+        this.profilePaths.push(file);
+        return `-coverprofile=${file}`;
+    }
+
+    async publish(run: vscode.TestRun): Promise<number> {
+        const blocks = new Map<string, CoverBlock>();
+
+        for (const file of this.profilePaths) {
+            const content = await fs.readFile(file, 'utf-8').catch(() => '');
+            for (const block of parseCoverProfile(content)) {
+                // Merge blocks reported by more than one test binary
+                const key = `${block.file}:${block.startLine}.${block.startCol},${block.endLine}.${block.endCol}`;
+                const existing = blocks.get(key);
+                if (existing) {
+                    existing.count += block.count;
+                } else {
+                    blocks.set(key, block);
+                }
+            }
+        }
+
+        const byFile = new Map<string, CoverBlock[]>();
+        for (const block of blocks.values()) {
+            if (!byFile.has(block.file)) {
+                byFile.set(block.file, []);
+            }
+            byFile.get(block.file)!.push(block);
+        }
+
+        let published = 0;
+        for (const [file, fileBlocks] of byFile) {
+            const fsPath = this.resolveFile(file);
+            if (!fsPath) {
+                continue;
+            }
+
+            let covered = 0;
+            let total = 0;
+            const details = fileBlocks.map(block => {
+                total += block.numStmt;
+                if (block.count > 0) {
+                    covered += block.numStmt;
+                }
+                // Cover profile positions are 1-based
+                return new vscode.StatementCoverage(
+                    block.count,
+                    new vscode.Range(block.startLine - 1, block.startCol - 1, block.endLine - 1, block.endCol - 1)
+                );
+            });
+
+            run.addCoverage(new GoFileCoverage(
+                vscode.Uri.file(fsPath),
+                new vscode.TestCoverageCount(covered, total),
+                details
+            ));
+            published++;
+        }
+
+        return published;
+    }
+
+    async dispose(): Promise<void> {
+        await Promise.all(this.profilePaths.map(file => fs.rm(file, { force: true }).catch(() => undefined)));
+        this.profilePaths = [];
+    }
+
+    private resolveFile(file: string): string | undefined {
+        // Packages outside any module are reported as "_/abs/path/file.go"
+        if (file.startsWith('_/')) {
+            return file.substring(1);
+        }
+        if (path.isAbsolute(file)) {
+            return file;
+        }
+
+        // Files are reported by import path, so map them back through their module
+        const module = findModuleForImportPath(this.modules, file);
+        if (module?.modulePath) {
+            return path.join(module.root, file.substring(module.modulePath.length + 1));
+        }
+
+        return undefined;
+    }
+}
+
+export function parseCoverProfile(content: string): CoverBlock[] {
+    const blocks: CoverBlock[] = [];
+    // Format: name.go:line.column,line.column numberOfStatements count
+    const blockRegex = /^(.+):(\d+)\.(\d+),(\d+)\.(\d+) (\d+) (\d+)$/;
+
+    for (const line of content.split('\n')) {
+        const match = line.trim().match(blockRegex);
+        if (!match) {
+            continue;
+        }
+        blocks.push({
+            file: match[1],
+            startLine: parseInt(match[2], 10),
+            startCol: parseInt(match[3], 10),
+            endLine: parseInt(match[4], 10),
+            endCol: parseInt(match[5], 10),
+            numStmt: parseInt(match[6], 10),
+            count: parseInt(match[7], 10)
+        });
+    }
+
+    return blocks;
+}
@@ -0,0 +1,410 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { spawn } from 'child_process';
+import { ProfileManager } from '../config/profileManager';
+import { splitTestFlags } from '../config/goTestFlags';
+import { TestProfile, EffectiveTestConfig } from '../models/testProfile';
+import { getTestItemData, buildRunPattern, escapeRegex, isBenchmarkName } from '../models/testItemData';
+
+interface DebugTarget {
+    pkg: string;
+    pkgDir: string;
+    moduleRoot?: string;
+    pkgItem: vscode.TestItem;
+    tests: vscode.TestItem[];
+    runPattern?: string;
+}
+
+interface DebugSessionState {
+    output: string[];
+    exitCode?: number;
+}
+
+interface DebugTestOutcome {
+    status: 'pass' | 'fail' | 'skip';
+    elapsed?: number;
+    output: string[];
+}
+
+export class TestDebugger {
+    private sessions: Map<string, DebugSessionState>;
+    private trackerRegistration: vscode.Disposable;
+    private static readonly SESSION_KEY = 'goTestRunnerSessionId';
+
+    constructor(
+        private controller: vscode.TestController,
+        private profileManager: ProfileManager
+    ) {
+        this.sessions = new Map();
+
+        // Capture program output and exit code of the sessions we started
+        this.trackerRegistration = vscode.debug.registerDebugAdapterTrackerFactory('go', {
+            createDebugAdapterTracker: (session) => {
+                const state = this.sessions.get(session.configuration[TestDebugger.SESSION_KEY]);
+                if (!state) {
+                    return undefined;
+                }
+                return {
+                    onDidSendMessage: (message: any) => {
+                        if (message.type !== 'event') {
+                            return;
+                        }
+                        if (message.event === 'output' && message.body?.category !== 'telemetry') {
+                            state.output.push(message.body?.output ?? '');
+                        } else if (message.event === 'exited') {
+                            state.exitCode = message.body?.exitCode;
+                        }
+                    }
+                };
+            }
+        });
+    }
+
+    async debugTests(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const profile = this.profileManager.getActiveProfile();
+
+        try {
+            const targets = this.collectTargets(request);
+            if (targets.length === 0) {
+                vscode.window.showWarningMessage('Select a test or package to debug.');
+                return;
+            }
+
+            for (const target of targets) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                await this.debugTarget(target, run, profile, token);
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    private collectTargets(request: vscode.TestRunRequest): DebugTarget[] {
+        const targets = new Map<string, DebugTarget>();
+        const excluded = new Set((request.exclude ?? []).map(item => item.id));
+
+        // Module items expand into their packages
+        const items = (request.include ?? []).flatMap(item => getTestItemData(item)?.kind === 'module'
+            ? Array.from(item.children).map(([, child]) => child)
+            : [item]);
+
+        for (const item of items) {
+            const data = getTestItemData(item);
+            if (!data || excluded.has(item.id)) {
+                continue;
+            }
+
+            let pkgItem: vscode.TestItem | undefined = item;
+            while (pkgItem && getTestItemData(pkgItem)?.kind !== 'package') {
+                pkgItem = pkgItem.parent;
+            }
+            if (!pkgItem) {
+                continue;
+            }
+
+            const tests = data.kind === 'package'
+                ? Array.from(item.children).map(([, child]) => child).filter(child => !excluded.has(child.id))
+                : [item];
+            const pkgDir = this.getPackageDir(tests);
+            if (!pkgDir || tests.length === 0) {
+                continue;
+            }
+
+            const target = targets.get(pkgItem.id) ?? { pkg: data.pkg, pkgDir, moduleRoot: data.moduleRoot, pkgItem, tests: [] };
+            for (const test of tests) {
+                if (!target.tests.includes(test)) {
+                    target.tests.push(test);
+                }
+            }
+            targets.set(pkgItem.id, target);
+        }
+
+        for (const target of targets.values()) {
+            target.runPattern = this.buildTargetRunPattern(target);
+        }
+
+        return Array.from(targets.values());
+    }
+
+    private buildTargetRunPattern(target: DebugTarget): string | undefined {
+        const names = target.tests.map(t => getTestItemData(t)?.testName ?? t.label);
+
+        // Debugging the whole package needs no -test.run filter
+        if (names.every(name => !name.includes('/')) && names.length >= target.pkgItem.children.size) {
+            return undefined;
+        }
+        if (names.length === 1) {
+            return buildRunPattern(names[0]);
+        }
+
+        // Levels of a -run pattern cannot be mixed, so several subtests run their whole parent test
+        const topLevel = Array.from(new Set(names.map(name => name.split('/')[0])));
+        return `^(${topLevel.map(escapeRegex).join('|')})$`;
+    }
+
+    private getPackageDir(tests: vscode.TestItem[]): string | undefined {
+        const uri = tests.find(t => t.uri)?.uri;
+        return uri ? path.dirname(uri.fsPath) : undefined;
+    }
+
+    private async debugTarget(
+        target: DebugTarget,
+        run: vscode.TestRun,
+        profile: TestProfile,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(target.pkgDir))
+            ?? vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return;
+        }
+
+        for (const test of target.tests) {
+            run.enqueued(test);
+        }
+
+        const config = this.profileManager.getEffectiveConfig(target.pkg, profile, target.moduleRoot ?? target.pkgDir);
+        const { buildFlags, testBinaryFlags } = splitTestFlags(config.testFlags);
+        const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'go-test-runner-'));
+        const binary = path.join(tmpDir, `${path.basename(target.pkgDir)}.test${process.platform === 'win32' ? '.exe' : ''}`);
+
+        try {
+            // Build the test binary without optimizations so breakpoints resolve reliably
+            const buildArgs = ['test', '-c', '-o', binary, '-gcflags=all=-N -l', ...buildFlags, target.pkg];
+            run.appendOutput(`Building: go ${buildArgs.join(' ')}\r\n`);
+            const cwd = target.moduleRoot ?? workspaceFolder.uri.fsPath;
+            const built = await this.buildTestBinary(buildArgs, cwd, config, run, token);
+            if (!built) {
+                if (!token.isCancellationRequested) {
+                    const message = new vscode.TestMessage(`Failed to build test binary for ${target.pkg} - see test output`);
+                    for (const test of target.tests) {
+                        run.errored(test, message);
+                    }
+                }
+                return;
+            }
+
+            const args = [...this.withoutRunFlag(testBinaryFlags), '-test.v'];
+            const benchmarksOnly = target.tests.every(t => isBenchmarkName(getTestItemData(t)?.testName ?? t.label));
+            if (benchmarksOnly) {
+                args.push('-test.run', '^$', '-test.bench', target.runPattern ?? '.');
+            } else if (target.runPattern) {
+                args.push('-test.run', target.runPattern);
+            }
+
+            for (const test of target.tests) {
+                run.started(test);
+            }
+
+            const state = await this.startSession(target, binary, args, workspaceFolder, config, run, token);
+            this.reportResults(target, state, run, token);
+        } finally {
+            fs.rm(tmpDir, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
+    private withoutRunFlag(flags: string[]): string[] {
+        const result: string[] = [];
+        for (let i = 0; i < flags.length; i++) {
+            if (flags[i] === '-test.run') {
+                i++; // skip its value
+            } else if (!flags[i].startsWith('-test.run=')) {
+                result.push(flags[i]);
+            }
+        }
+        return result;
+    }
+
+    private buildTestBinary(
+        args: string[],
+        cwd: string,
+        config: EffectiveTestConfig,
+        run: vscode.TestRun,
+        token: vscode.CancellationToken
+    ): Promise<boolean> {
+        return new Promise((resolve) => {
+            const proc = spawn('go', args, {
+                cwd,
+                env: { ...process.env, ...config.testEnvVars }
+            });
+
+            const cancellation = token.onCancellationRequested(() => proc.kill());
+
+            const forward = (data: Buffer) => run.appendOutput(data.toString().replace(/\r?\n/g, '\r\n'));
+            proc.stdout.on('data', forward);
+            proc.stderr.on('data', forward);
+
+            proc.on('close', (code) => {
+                cancellation.dispose();
+                resolve(code === 0 && !token.isCancellationRequested);
+            });
+
+            proc.on('error', (err) => {
+                cancellation.dispose();
+                run.appendOutput(`Failed to run go: ${err.message}\r\n`);
+                resolve(false);
+            });
+        });
+    }
+
+    private async startSession(
+        target: DebugTarget,
+        binary: string,
+        args: string[],
+        workspaceFolder: vscode.WorkspaceFolder,
+        testConfig: EffectiveTestConfig,
+        run: vscode.TestRun,
+        token: vscode.CancellationToken
+    ): Promise<DebugSessionState> {
+        const sessionId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        const state: DebugSessionState = { output: [] };
+        this.sessions.set(sessionId, state);
+
+        const config: vscode.DebugConfiguration = {
+            type: 'go',
+            name: `Debug ${target.runPattern ? target.tests.map(t => getTestItemData(t)?.testName ?? t.label).join(', ') : target.pkg}`,
+            request: 'launch',
+            mode: 'exec',
+            program: binary,
+            args,
+            cwd: target.pkgDir,
+            env: testConfig.testEnvVars,
+            [TestDebugger.SESSION_KEY]: sessionId
+        };
+
+        const disposables: vscode.Disposable[] = [];
+
+        try {
+            return await new Promise<DebugSessionState>((resolve) => {
+                let session: vscode.DebugSession | undefined;
+
+                disposables.push(vscode.debug.onDidStartDebugSession(s => {
+                    if (s.configuration[TestDebugger.SESSION_KEY] === sessionId) {
+                        session = s;
+                    }
+                }));
+
+                disposables.push(vscode.debug.onDidTerminateDebugSession(s => {
+                    if (s.configuration[TestDebugger.SESSION_KEY] === sessionId) {
+                        resolve(state);
+                    }
+                }));
+
+                disposables.push(token.onCancellationRequested(() => {
+                    if (session) {
+                        vscode.debug.stopDebugging(session);
+                    } else {
+                        resolve(state);
+                    }
+                }));
+
+                vscode.debug.startDebugging(workspaceFolder, config, { testRun: run }).then(started => {
+                    if (!started) {
+                        run.appendOutput('Failed to start debug session. Is the Go extension (dlv) installed?\r\n');
+                        resolve(state);
+                    }
+                }, err => {
+                    run.appendOutput(`Failed to start debug session: ${err}\r\n`);
+                    resolve(state);
+                });
+            });
+        } finally {
+            disposables.forEach(d => d.dispose());
+            this.sessions.delete(sessionId);
+        }
+    }
+
+    private reportResults(
+        target: DebugTarget,
+        state: DebugSessionState,
+        run: vscode.TestRun,
+        token: vscode.CancellationToken
+    ): void {
+        const outcomes = this.parseTestOutput(state.output);
+
+        for (const test of target.tests) {
+            const outcome = outcomes.get(getTestItemData(test)?.testName ?? test.label);
+            const duration = outcome?.elapsed !== undefined ? outcome.elapsed * 1000 : undefined;
+
+            if (outcome?.output.length) {
+                run.appendOutput(outcome.output.join('').replace(/\r?\n/g, '\r\n'), undefined, test);
+            }
+
+            if (!outcome) {
+                if (token.isCancellationRequested) {
+                    run.skipped(test);
+                } else if (state.exitCode === 0) {
+                    run.passed(test);
+                } else {
+                    run.errored(test, new vscode.TestMessage('Debug session ended before the test reported a result'));
+                }
+                continue;
+            }
+
+            switch (outcome.status) {
+                case 'pass':
+                    run.passed(test, duration);
+                    break;
+                case 'fail':
+                    run.failed(test, new vscode.TestMessage(outcome.output.join('') || 'Test failed - see debug console'), duration);
+                    break;
+                case 'skip':
+                    run.skipped(test);
+                    break;
+            }
+        }
+    }
+
+    private parseTestOutput(output: string[]): Map<string, DebugTestOutcome> {
+        const outcomes = new Map<string, DebugTestOutcome>();
+        const lines = output.join('').split('\n');
+        let current: DebugTestOutcome | undefined;
+
+        for (const line of lines) {
+            const runMatch = line.match(/^=== (?:RUN|CONT|NAME)\s+(\S+)/);
+            if (runMatch) {
+                if (!outcomes.has(runMatch[1])) {
+                    outcomes.set(runMatch[1], { status: 'pass', output: [] });
+                }
+                current = outcomes.get(runMatch[1]);
+                continue;
+            }
+
+            // Subtest results are indented below their parent
+            const resultMatch = line.match(/^\s*--- (PASS|FAIL|SKIP): (\S+) \(([\d.]+)s\)/);
+            if (resultMatch) {
+                const outcome = outcomes.get(resultMatch[2]) ?? { status: 'pass', output: [] };
+                outcome.status = resultMatch[1].toLowerCase() as DebugTestOutcome['status'];
+                outcome.elapsed = parseFloat(resultMatch[3]);
+                outcome.output.push(line + '\n');
+                outcomes.set(resultMatch[2], outcome);
+                current = undefined;
+                continue;
+            }
+
+            current?.output.push(line + '\n');
+        }
+
+        // A test that started but never reported a result did not finish
+        for (const [name, outcome] of outcomes) {
+            if (outcome.elapsed === undefined) {
+                outcomes.delete(name);
+            }
+        }
+
+        return outcomes;
+    }
+
+    dispose(): void {
+        this.trackerRegistration.dispose();
+        this.sessions.clear();
+    }
+}
@@ -0,0 +1,149 @@
+import * as path from 'path';
+
+export interface BuildContext {
+    goos: string;
+    goarch: string;
+    // -tags plus cgo when enabled
+    tags: Set<string>;
+}
+
+const KNOWN_OS = new Set([
+    'aix', 'android', 'darwin', 'dragonfly', 'freebsd', 'hurd', 'illumos', 'ios', 'js', 'linux',
+    'nacl', 'netbsd', 'openbsd', 'plan9', 'solaris', 'wasip1', 'windows', 'zos'
+]);
+const UNIX_OS = new Set([
+    'aix', 'android', 'darwin', 'dragonfly', 'freebsd', 'hurd', 'illumos', 'ios', 'linux',
+    'netbsd', 'openbsd', 'solaris'
+]);
+const KNOWN_ARCH = new Set([
+    '386', 'amd64', 'amd64p32', 'arm', 'armbe', 'arm64', 'arm64be', 'loong64', 'mips', 'mipsle',
+    'mips64', 'mips64le', 'mips64p32', 'mips64p32le', 'ppc', 'ppc64', 'ppc64le', 'riscv', 'riscv64',
+    's390', 's390x', 'sparc', 'sparc64', 'wasm'
+]);
+
+const NODE_PLATFORMS: { [platform: string]: string } = { win32: 'windows', sunos: 'solaris' };
+const NODE_ARCHS: { [arch: string]: string } = { x64: 'amd64', ia32: '386' };
+
+/**
+ * Build context for a go test process: GOOS/GOARCH/CGO_ENABLED from its
+ * environment (defaulting to this machine) and the tags of its -tags flags.
+ */
+export function getBuildContext(testFlags: string[], env: { [key: string]: string | undefined }): BuildContext {
+    const goos = env.GOOS || NODE_PLATFORMS[process.platform] || process.platform;
+    const goarch = env.GOARCH || NODE_ARCHS[process.arch] || process.arch;
+    const tags = new Set<string>();
+
+    for (let i = 0; i < testFlags.length; i++) {
+        const match = testFlags[i].match(/^--?tags(?:=(.*))?$/);
+        if (!match) {
+            continue;
+        }
+        // The last -tags flag wins, as with go test
+        const value = match[1] ?? testFlags[++i] ?? '';
+        tags.clear();
+        value.split(/[,\s]+/).filter(Boolean).forEach(tag => tags.add(tag));
+    }
+
+    // cgo is on by default for native builds only
+    const cgo = env.CGO_ENABLED ?? (env.GOOS || env.GOARCH ? '0' : '1');
+    if (cgo === '1') {
+        tags.add('cgo');
+    }
+    return { goos, goarch, tags };
+}
+
+/**
+ * Whether go would build the file in this context, going by its
+ * _GOOS/_GOARCH file name suffixes and its //go:build expression.
+ */
+export function matchesBuildContext(fileName: string, constraint: string | undefined, context: BuildContext): boolean {
+    return matchesFileName(fileName, context) && (!constraint || evaluateConstraint(constraint, context));
+}
+
+/** Whether the file is only built in some contexts. */
+export function hasBuildConstraint(fileName: string, constraint: string | undefined): boolean {
+    return constraint !== undefined || fileNameTags(fileName).length > 0;
+}
+
+function matchesTag(tag: string, context: BuildContext): boolean {
+    if (tag === context.goos || tag === context.goarch || tag === 'gc' || context.tags.has(tag)) {
+        return true;
+    }
+    if (tag === 'unix') {
+        return UNIX_OS.has(context.goos);
+    }
+    // Android and iOS builds also match linux and darwin
+    if ((tag === 'linux' && context.goos === 'android') || (tag === 'darwin' && context.goos === 'ios')) {
+        return true;
+    }
+    // Release tags: assume a toolchain recent enough for the module
+    return /^go1\.\d+$/.test(tag);
+}
+
+function matchesFileName(fileName: string, context: BuildContext): boolean {
+    return fileNameTags(fileName).every(tag => matchesTag(tag, context));
+}
+
+/** The GOOS and/or GOARCH a file name like "x_linux_amd64_test.go" restricts the file to. */
+function fileNameTags(fileName: string): string[] {
+    const parts = path.basename(fileName, '.go').replace(/_test$/, '').split('_');
+    if (parts.length < 2) {
+        return [];
+    }
+    const last = parts[parts.length - 1];
+    const previous = parts.length > 2 ? parts[parts.length - 2] : undefined;
+    if (previous && KNOWN_OS.has(previous) && KNOWN_ARCH.has(last)) {
+        return [previous, last];
+    }
+    if (KNOWN_OS.has(last) || KNOWN_ARCH.has(last)) {
+        return [last];
+    }
+    return [];
+}
+
+/** Evaluates a //go:build expression (||, &&, ! and parentheses). Malformed expressions match. */
+function evaluateConstraint(expression: string, context: BuildContext): boolean {
+    const tokens = expression.match(/\|\||&&|!|\(|\)|[\w.]+/g) ?? [];
+    let position = 0;
+
+    const parseOr = (): boolean => {
+        let value = parseAnd();
+        while (tokens[position] === '||') {
+            position++;
+            value = parseAnd() || value;
+        }
+        return value;
+    };
+    const parseAnd = (): boolean => {
+        let value = parseNot();
+        while (tokens[position] === '&&') {
+            position++;
+            value = parseNot() && value;
+        }
+        return value;
+    };
+    const parseNot = (): boolean => {
+        const token = tokens[position++];
+        if (token === '!') {
+            return !parseNot();
+        }
+        if (token === '(') {
+            const value = parseOr();
+            if (tokens[position++] !== ')') {
+                throw new Error(`missing ) in ${expression}`);
+            }
+            return value;
+        }
+        if (!token || !/^[\w.]+$/.test(token)) {
+            throw new Error(`unexpected ${token ?? 'end'} in ${expression}`);
+        }
+        return matchesTag(token, context);
+    };
+
+    try {
+        const value = parseOr();
+        return position === tokens.length ? value : true;
+    } catch {
+        return true;
+    }
+}
@@ -0,0 +1,35 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, timeout: 30000, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+}
+
+/**
+ * Returns the absolute paths of the files changed in the repository
+ * containing cwd: committed changes since the merge base with baseRef, plus
+ * staged, unstaged and untracked changes. Throws when cwd is not in a git
+ * repository or baseRef does not exist.
+ */
+export async function getChangedFiles(cwd: string, baseRef: string): Promise<string[]> {
+    const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+    // Against a branch, only what this branch changed counts
+    const base = (await git(cwd, ['merge-base', baseRef, 'HEAD'])).trim();
+
+    const [diff, untracked] = await Promise.all([
+        git(repoRoot, ['diff', '--name-only', '-z', base, '--']),
+        git(repoRoot, ['ls-files', '--others', '--exclude-standard', '-z'])
+    ]);
+
+    const files = new Set<string>();
+    for (const file of [...diff.split('\0'), ...untracked.split('\0')]) {
+        if (file) {
+            files.add(path.join(repoRoot, file));
+        }
+    }
+    return Array.from(files);
+}
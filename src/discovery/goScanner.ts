@@ -0,0 +1,701 @@
+export type TokenKind = 'ident' | 'string' | 'char' | 'number' | 'comment' | 'punct';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    // Offset of the first character and of the character after the token
+    start: number;
+    end: number;
+}
+
+export type TestFunctionKind = 'test' | 'benchmark' | 'fuzz' | 'example';
+
+export interface TestFunction {
+    name: string;
+    kind: TestFunctionKind;
+    // From the func keyword to the closing brace of the body
+    start: number;
+    end: number;
+    // Offset of the function name
+    nameStart: number;
+    // Examples only: whether the body has an "// Output:" comment to verify
+    hasOutput?: boolean;
+    // Subtests found in the source, for tests and benchmarks
+    subtests: Subtest[];
+    // Tests only: the testify suite type passed to suite.Run
+    suite?: string;
+}
+
+/** A method of a testify suite, run as a subtest of the test calling suite.Run. */
+export interface SuiteMethod {
+    // Receiver type, without the pointer
+    suite: string;
+    name: string;
+    start: number;
+    end: number;
+}
+
+/** A t.Run call with a literal name, or one case of a table-driven test. */
+export interface Subtest {
+    // As written in the source, before go test replaces spaces
+    name: string;
+    // The t.Run call or the table entry
+    start: number;
+    end: number;
+    children: Subtest[];
+}
+
+export interface GoFileInfo {
+    // Expression of the file's //go:build (or legacy // +build) constraint
+    buildConstraint?: string;
+    functions: TestFunction[];
+    suiteMethods: SuiteMethod[];
+}
+
+// Parameter type each kind of test function must take (examples take none)
+const TEST_KINDS: { prefix: string; kind: TestFunctionKind; param?: string }[] = [
+    { prefix: 'Test', kind: 'test', param: 'T' },
+    { prefix: 'Benchmark', kind: 'benchmark', param: 'B' },
+    { prefix: 'Fuzz', kind: 'fuzz', param: 'F' },
+    { prefix: 'Example', kind: 'example' }
+];
+
+const TESTIFY_SUITE = 'github.com/stretchr/testify/suite';
+
+const OPENING = new Set(['(', '[', '{']);
+const CLOSING = new Set([')', ']', '}']);
+
+const IDENT_START = /[\p{L}_]/u;
+const IDENT_PART = /[\p{L}\p{N}_]/u;
+
+/**
+ * Splits Go source into tokens. Comments are kept, whitespace is dropped.
+ * Unterminated strings and comments run to the end of the line or file
+ * instead of failing, as files are often scanned mid-edit.
+ */
+export function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const c = source[i];
+        const start = i;
+
+        if (c === ' ' || c === '\t' || c === '\n' || c === '\r') {
+            i++;
+            continue;
+        }
+
+        if (c === '/' && source[i + 1] === '/') {
+            const newline = source.indexOf('\n', i);
+            i = newline === -1 ? source.length : newline;
+            tokens.push({ kind: 'comment', text: source.slice(start, i), start, end: i });
+        } else if (c === '/' && source[i + 1] === '*') {
+            const close = source.indexOf('*/', i + 2);
+            i = close === -1 ? source.length : close + 2;
+            tokens.push({ kind: 'comment', text: source.slice(start, i), start, end: i });
+        } else if (c === '`') {
+            const close = source.indexOf('`', i + 1);
+            i = close === -1 ? source.length : close + 1;
+            tokens.push({ kind: 'string', text: source.slice(start, i), start, end: i });
+        } else if (c === '"' || c === '\'') {
+            i++;
+            while (i < source.length && source[i] !== c && source[i] !== '\n') {
+                i += source[i] === '\\' ? 2 : 1;
+            }
+            i = Math.min(i + 1, source.length);
+            tokens.push({ kind: c === '"' ? 'string' : 'char', text: source.slice(start, i), start, end: i });
+        } else if (IDENT_START.test(c)) {
+            i++;
+            while (i < source.length && IDENT_PART.test(source[i])) {
+                i++;
+            }
+            tokens.push({ kind: 'ident', text: source.slice(start, i), start, end: i });
+        } else if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+            i++;
+            // Good enough for hex, exponents, underscores and imaginary literals
+            while (i < source.length && /[\w.]/.test(source[i])) {
+                i += /[eEpP]/.test(source[i]) && /[+-]/.test(source[i + 1] ?? '') ? 2 : 1;
+            }
+            tokens.push({ kind: 'number', text: source.slice(start, i), start, end: i });
+        } else {
+            i++;
+            tokens.push({ kind: 'punct', text: c, start, end: i });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Finds the top-level test, benchmark, fuzz and example functions of a
+ * _test.go file the way `go test` does: plain functions (no receiver or
+ * type parameters) with the right name and signature. Commented-out code,
+ * strings, methods and TestMain are ignored. Test methods of testify
+ * suites are returned separately, as the suite may be run from another file.
+ */
+export function scanTestFile(source: string): GoFileInfo {
+    const tokens = tokenize(source);
+    const comments = tokens.filter(t => t.kind === 'comment');
+    const code = tokens.filter(t => t.kind !== 'comment');
+
+    const packageIndex = code.findIndex(t => t.kind === 'ident' && t.text === 'package');
+    const packageStart = packageIndex === -1 ? source.length : code[packageIndex].start;
+    const testing = findImportNames(code, 'testing');
+    const suitePackages = findImportNames(code, TESTIFY_SUITE);
+    const functions: TestFunction[] = [];
+    const suiteMethods: SuiteMethod[] = [];
+
+    let depth = 0;
+    for (let i = 0; i < code.length; i++) {
+        const token = code[i];
+        if (token.kind === 'punct' && OPENING.has(token.text)) {
+            depth++;
+        } else if (token.kind === 'punct' && CLOSING.has(token.text)) {
+            depth = Math.max(0, depth - 1);
+        } else if (depth === 0 && token.kind === 'ident' && token.text === 'func') {
+            const method = parseSuiteMethod(code, i);
+            if (method) {
+                suiteMethods.push(method);
+            }
+            const fn = parseFunction(code, i, testing, suitePackages);
+            if (fn) {
+                if (fn.kind === 'example') {
+                    fn.hasOutput = comments.some(c => c.start > fn.start && c.end < fn.end
+                        && /^\/\/\s*(Unordered output|Output):/i.test(c.text));
+                }
+                functions.push(fn);
+            }
+        }
+    }
+
+    return {
+        buildConstraint: findBuildConstraint(comments.filter(c => c.start < packageStart)),
+        functions: functions.sort((a, b) => a.name.localeCompare(b.name)),
+        suiteMethods
+    };
+}
+
+/**
+ * Returns the part of a Go file that decides which package it belongs to
+ * and what it imports: the build constraint, the package clause and the
+ * import declarations. Edits to the rest of the file, to whitespace or to
+ * other comments leave it unchanged.
+ */
+export function scanFileHeader(source: string): string {
+    const tokens = tokenize(source);
+    const code = tokens.filter(t => t.kind !== 'comment');
+
+    const packageIndex = code.findIndex(t => t.kind === 'ident' && t.text === 'package');
+    if (packageIndex === -1) {
+        return '';
+    }
+    const packageStart = code[packageIndex].start;
+    const constraint = findBuildConstraint(tokens.filter(t => t.kind === 'comment' && t.start < packageStart));
+
+    // Import declarations directly follow the package clause
+    let end = packageIndex + 2;
+    while (code[end]?.text === ';') {
+        end++;
+    }
+    while (code[end]?.kind === 'ident' && code[end].text === 'import') {
+        if (code[end + 1]?.text === '(') {
+            const close = findClosing(code, end + 1);
+            end = close === -1 ? code.length : close + 1;
+        } else {
+            end += code[end + 1]?.kind === 'string' ? 2 : 3;
+        }
+        while (code[end]?.text === ';') {
+            end++;
+        }
+    }
+
+    return [constraint ?? '', ...code.slice(packageIndex, end).map(t => t.text)].join(' ');
+}
+
+/** Local names a package is imported as ("." for a dot import). */
+function findImportNames(code: Token[], importPath: string): Set<string> {
+    const names = new Set<string>();
+    for (let i = 0; i < code.length; i++) {
+        if (code[i].kind !== 'ident' || code[i].text !== 'import') {
+            continue;
+        }
+        // Either a single spec or a parenthesised list of them
+        const grouped = code[i + 1]?.text === '(';
+        let j = grouped ? i + 2 : i + 1;
+        while (j < code.length) {
+            let alias: string | undefined;
+            if (code[j].kind === 'ident' || code[j].text === '.') {
+                alias = code[j].text;
+                j++;
+            }
+            const spec = code[j];
+            if (spec?.kind !== 'string') {
+                break;
+            }
+            if (spec.text.slice(1, -1) === importPath) {
+                names.add(alias ?? importPath.split('/').pop()!);
+            }
+            j++;
+            if (code[j]?.text === ';') {
+                j++;
+            }
+            if (!grouped || code[j]?.text === ')') {
+                break;
+            }
+        }
+        i = j;
+    }
+    return names;
+}
+
+function parseFunction(code: Token[], funcIndex: number, testing: Set<string>, suitePackages: Set<string>): TestFunction | undefined {
+    // Methods have a receiver list instead of a name
+    const name = code[funcIndex + 1];
+    if (name?.kind !== 'ident' || code[funcIndex + 2]?.text !== '(') {
+        return undefined;
+    }
+    const testKind = TEST_KINDS.find(k => name.text.startsWith(k.prefix)
+        && !/^[a-z]/.test(name.text.charAt(k.prefix.length)));
+    if (!testKind || name.text === 'TestMain') {
+        return undefined;
+    }
+
+    const paramsEnd = findClosing(code, funcIndex + 2);
+    const bodyStart = paramsEnd + 1;
+    // Test functions return nothing; declarations without a body are implemented in assembly
+    if (paramsEnd === -1 || code[bodyStart]?.text !== '{') {
+        return undefined;
+    }
+    if (!isTestSignature(code.slice(funcIndex + 3, paramsEnd), testKind.param, testing)) {
+        return undefined;
+    }
+
+    const bodyEnd = findClosing(code, bodyStart);
+    // Subtests run through the named *testing.T or *testing.B parameter
+    const param = code[funcIndex + 3];
+    const runner = testKind.kind !== 'fuzz' && param.kind === 'ident' && param.text !== '_' && code[funcIndex + 4]?.text === '*'
+        ? param.text
+        : undefined;
+    return {
+        name: name.text,
+        kind: testKind.kind,
+        start: code[funcIndex].start,
+        end: bodyEnd === -1 ? code[code.length - 1].end : code[bodyEnd].end,
+        nameStart: name.start,
+        subtests: runner && bodyEnd !== -1 ? findSubtests(code, bodyStart, bodyEnd, runner) : [],
+        suite: runner && testKind.kind === 'test' && bodyEnd !== -1
+            ? findSuiteRun(code, bodyStart, bodyEnd, runner, suitePackages)
+            : undefined
+    };
+}
+
+/** Parses "func (s *MySuite) TestXxx() {", the methods testify runs for a suite. */
+function parseSuiteMethod(code: Token[], funcIndex: number): SuiteMethod | undefined {
+    if (code[funcIndex + 1]?.text !== '(') {
+        return undefined;
+    }
+    const receiverClose = findClosing(code, funcIndex + 1);
+    if (receiverClose === -1) {
+        return undefined;
+    }
+    // "s MySuite", "MySuite" (unnamed receiver) or the pointer forms of these
+    const receiver = code.slice(funcIndex + 2, receiverClose).map(t => t.text).filter(text => text !== '*');
+    const suite = receiver[receiver.length - 1];
+    const name = code[receiverClose + 1];
+    if (receiver.length === 0 || receiver.length > 2 || !/^\w+$/.test(suite)) {
+        return undefined;
+    }
+    if (name?.kind !== 'ident' || !name.text.startsWith('Test') || code[receiverClose + 2]?.text !== '('
+        || code[receiverClose + 3]?.text !== ')' || code[receiverClose + 4]?.text !== '{') {
+        return undefined;
+    }
+    const bodyEnd = findClosing(code, receiverClose + 4);
+    return {
+        suite,
+        name: name.text,
+        start: code[funcIndex].start,
+        end: bodyEnd === -1 ? code[code.length - 1].end : code[bodyEnd].end
+    };
+}
+
+/**
+ * Finds the suite type of a suite.Run(t, new(MySuite)) or suite.Run(t,
+ * &MySuite{...}) call, also when the suite was assigned to a variable first.
+ */
+function findSuiteRun(code: Token[], bodyOpen: number, bodyClose: number, runner: string, suitePackages: Set<string>): string | undefined {
+    const suiteTypeAt = (i: number): string | undefined => {
+        if (code[i]?.text === 'new' && code[i + 1]?.text === '(' && code[i + 2]?.kind === 'ident' && code[i + 3]?.text === ')') {
+            return code[i + 2].text;
+        }
+        if (code[i]?.text === '&' && code[i + 1]?.kind === 'ident' && code[i + 2]?.text === '{') {
+            return code[i + 1].text;
+        }
+        return undefined;
+    };
+
+    for (let i = bodyOpen + 1; i < bodyClose; i++) {
+        const isCall = suitePackages.has(code[i].text) && code[i + 1]?.text === '.' && code[i + 2]?.text === 'Run'
+            && code[i + 3]?.text === '(' && code[i + 4]?.text === runner && code[i + 5]?.text === ',';
+        if (!isCall) {
+            continue;
+        }
+        const direct = suiteTypeAt(i + 6);
+        if (direct) {
+            return direct;
+        }
+        // s := new(MySuite) earlier in the test
+        const variable = code[i + 6];
+        for (let j = i - 1; variable?.kind === 'ident' && j > bodyOpen; j--) {
+            if (code[j].text === variable.text && code[j + 1]?.text === ':' && code[j + 2]?.text === '=') {
+                return suiteTypeAt(j + 3);
+            }
+        }
+    }
+    return undefined;
+}
+
+/** Checks a parameter list like "t *testing.T", "*testing.T" or "_ *T" (dot import). */
+function isTestSignature(params: Token[], param: string | undefined, testing: Set<string>): boolean {
+    const texts = params.map(t => t.text);
+    if (texts[texts.length - 1] === ',') {
+        texts.pop();
+    }
+    if (!param) {
+        return texts.length === 0;
+    }
+    // Drop the parameter name
+    if (params[0]?.kind === 'ident' && texts[1] === '*') {
+        texts.shift();
+    }
+    if (texts.length === 2 && texts[0] === '*' && texts[1] === param) {
+        return testing.has('.');
+    }
+    return texts.length === 4 && texts[0] === '*' && testing.has(texts[1]) && texts[2] === '.' && texts[3] === param;
+}
+
+/** Index of the bracket closing the one at openIndex, or -1. */
+function findClosing(code: Token[], openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < code.length; i++) {
+        if (code[i].kind !== 'punct') {
+            continue;
+        }
+        if (OPENING.has(code[i].text)) {
+            depth++;
+        } else if (CLOSING.has(code[i].text)) {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+/** Reads the constraint from the comments before the package clause. */
+function findBuildConstraint(header: Token[]): string | undefined {
+    const lines = header
+        .filter(c => c.text.startsWith('//'))
+        .map(c => c.text.slice(2));
+
+    const goBuild = lines.find(line => /^go:build\s/.test(line));
+    if (goBuild) {
+        return goBuild.slice('go:build'.length).trim();
+    }
+
+    // "// +build a,b c" means (a && b) || c; several lines are ANDed
+    const plusBuild = lines
+        .filter(line => /^\s*\+build\s/.test(line))
+        .map(line => line.trim().slice('+build'.length).trim().split(/\s+/)
+            .map(option => option.split(',').join(' && '))
+            .join(' || '));
+    if (plusBuild.length === 0) {
+        return undefined;
+    }
+    return plusBuild.length === 1 ? plusBuild[0] : plusBuild.map(expr => `(${expr})`).join(' && ');
+}
+
+/**
+ * Finds the subtests started in a function body through runner.Run: calls
+ * with a literal name (recursing into their func literal), and calls naming
+ * the case of a range loop over a slice or map literal, directly or through
+ * a variable holding one.
+ */
+function findSubtests(code: Token[], bodyOpen: number, bodyClose: number, runner: string): Subtest[] {
+    const subtests: Subtest[] = [];
+
+    for (let i = bodyOpen + 1; i < bodyClose; i++) {
+        if (code[i].text === 'for' && code[i].kind === 'ident') {
+            const loop = parseRangeLoop(code, i, bodyOpen);
+            const cases = loop ? findTableCases(code, loop, runner) : [];
+            if (loop && cases.length > 0) {
+                subtests.push(...cases);
+                i = loop.bodyClose;
+            }
+            continue;
+        }
+        if (!isRunCall(code, i, runner)) {
+            continue;
+        }
+
+        const callClose = findClosing(code, i + 3);
+        const nameToken = code[i + 4];
+        const name = nameToken.kind === 'string' && code[i + 5]?.text === ',' ? unquote(nameToken.text) : undefined;
+        if (name === undefined || callClose === -1) {
+            continue;
+        }
+
+        // t.Run("name", func(t *testing.T) { ... })
+        let children: Subtest[] = [];
+        const nested = code[i + 8];
+        if (code[i + 6]?.text === 'func' && code[i + 7]?.text === '(' && nested?.kind === 'ident' && code[i + 9]?.text === '*') {
+            const nestedOpen = findClosing(code, i + 7) + 1;
+            const nestedClose = code[nestedOpen]?.text === '{' ? findClosing(code, nestedOpen) : -1;
+            if (nestedClose !== -1) {
+                children = findSubtests(code, nestedOpen, nestedClose, nested.text);
+            }
+        }
+        subtests.push({ name, start: code[i].start, end: code[callClose].end, children });
+        i = callClose;
+    }
+
+    return subtests;
+}
+
+interface RangeLoop {
+    key?: string;
+    value?: string;
+    table: CompositeLiteral;
+    bodyOpen: number;
+    bodyClose: number;
+}
+
+interface CompositeLiteral {
+    isMap: boolean;
+    open: number;
+    close: number;
+}
+
+/** Parses "for k, v := range <table> {" where table is a literal or a variable assigned one. */
+function parseRangeLoop(code: Token[], forIndex: number, scopeOpen: number): RangeLoop | undefined {
+    const vars: string[] = [];
+    let j = forIndex + 1;
+    while (code[j]?.kind === 'ident' && code[j].text !== 'range') {
+        vars.push(code[j].text);
+        j += code[j + 1]?.text === ',' ? 2 : 1;
+    }
+    if (code[j]?.text === ':' && code[j + 1]?.text === '=') {
+        j += 2;
+    } else if (code[j]?.text === '=') {
+        j++;
+    }
+    if (code[j]?.text !== 'range' || vars.length === 0) {
+        return undefined;
+    }
+    j++;
+
+    let table: CompositeLiteral | undefined;
+    let bodyOpen: number;
+    if (code[j]?.kind === 'ident' && code[j + 1]?.text === '{') {
+        table = findAssignedLiteral(code, code[j].text, forIndex, scopeOpen);
+        bodyOpen = j + 1;
+    } else {
+        table = parseCompositeLiteral(code, j);
+        bodyOpen = table ? table.close + 1 : -1;
+    }
+    const bodyClose = table && code[bodyOpen]?.text === '{' ? findClosing(code, bodyOpen) : -1;
+    if (!table || bodyClose === -1) {
+        return undefined;
+    }
+
+    const [key, value] = vars;
+    return { key: key === '_' ? undefined : key, value: value === '_' ? undefined : value, table, bodyOpen, bodyClose };
+}
+
+/** Cases of a loop whose body calls runner.Run(tc.field, ...) or, for maps, runner.Run(key, ...). */
+function findTableCases(code: Token[], loop: RangeLoop, runner: string): Subtest[] {
+    for (let i = loop.bodyOpen + 1; i < loop.bodyClose; i++) {
+        if (!isRunCall(code, i, runner)) {
+            continue;
+        }
+        const arg = code[i + 4];
+        if (loop.table.isMap && arg.text === loop.key && code[i + 5]?.text === ',') {
+            return mapCases(code, loop.table);
+        }
+        if (arg.text === loop.value && code[i + 5]?.text === '.' && code[i + 6]?.kind === 'ident' && code[i + 7]?.text === ',') {
+            return elementCases(code, loop.table, code[i + 6].text);
+        }
+    }
+    return [];
+}
+
+function mapCases(code: Token[], table: CompositeLiteral): Subtest[] {
+    const cases: Subtest[] = [];
+    for (const [start, end] of splitElements(code, table)) {
+        const name = code[start].kind === 'string' && code[start + 1]?.text === ':' ? unquote(code[start].text) : undefined;
+        if (name !== undefined) {
+            cases.push({ name, start: code[start].start, end: code[end].end, children: [] });
+        }
+    }
+    return cases;
+}
+
+/** Cases whose keyed field (e.g. name: "...") is a string literal. */
+function elementCases(code: Token[], table: CompositeLiteral, field: string): Subtest[] {
+    const cases: Subtest[] = [];
+    for (const [start, end] of splitElements(code, table)) {
+        // The value of a map entry, or the element itself ({...}, T{...} or &T{...})
+        let open = start;
+        while (open <= end && code[open].text !== '{') {
+            open++;
+        }
+        const close = open <= end ? findClosing(code, open) : -1;
+        if (close === -1) {
+            continue;
+        }
+
+        let depth = 0;
+        for (let j = open + 1; j < close; j++) {
+            if (OPENING.has(code[j].text) && code[j].kind === 'punct') {
+                depth++;
+            } else if (CLOSING.has(code[j].text) && code[j].kind === 'punct') {
+                depth--;
+            } else if (depth === 0 && code[j].text === field && code[j + 1]?.text === ':' && code[j + 2]?.kind === 'string') {
+                const name = unquote(code[j + 2].text);
+                if (name !== undefined) {
+                    cases.push({ name, start: code[start].start, end: code[end].end, children: [] });
+                }
+                break;
+            }
+        }
+    }
+    return cases;
+}
+
+/** Token ranges of the comma-separated elements of a composite literal. */
+function splitElements(code: Token[], literal: CompositeLiteral): [number, number][] {
+    const elements: [number, number][] = [];
+    let start = literal.open + 1;
+    let depth = 0;
+    for (let i = literal.open + 1; i <= literal.close; i++) {
+        const punct = code[i].kind === 'punct' ? code[i].text : '';
+        if (OPENING.has(punct)) {
+            depth++;
+        } else if (CLOSING.has(punct) && i !== literal.close) {
+            depth--;
+        } else if ((depth === 0 && punct === ',') || i === literal.close) {
+            if (i > start) {
+                elements.push([start, i - 1]);
+            }
+            start = i + 1;
+        }
+    }
+    return elements;
+}
+
+/**
+ * Finds the literal assigned by the last "name := ..." before the loop in the
+ * enclosing function, else by a package-level "var name = ...".
+ */
+function findAssignedLiteral(code: Token[], name: string, before: number, scopeOpen: number): CompositeLiteral | undefined {
+    // Index of the value assigned to name at i, -1 if i is not an assignment to it
+    const valueAt = (i: number): number => {
+        if (code[i].text !== name || code[i].kind !== 'ident' || code[i - 1]?.text === '.') {
+            return -1;
+        }
+        let j = i + 1;
+        while (code[j]?.text === ',' && code[j + 1]?.kind === 'ident') {
+            j += 2;
+        }
+        if (code[j]?.text === ':' && code[j + 1]?.text === '=') {
+            return j + 2;
+        }
+        return code[j]?.text === '=' && code[j + 1]?.text !== '=' ? j + 1 : -1;
+    };
+    // Only "name = <literal>" assigns a literal, not "name, err = ..."
+    const literalAt = (i: number, value: number): CompositeLiteral | undefined =>
+        code[i + 1]?.text === ',' ? undefined : parseCompositeLiteral(code, value);
+
+    for (let i = before - 1; i > scopeOpen; i--) {
+        const value = valueAt(i);
+        if (value !== -1) {
+            return literalAt(i, value);
+        }
+    }
+
+    // Package-level tables, outside any function body
+    let depth = 0;
+    for (let i = 0; i < code.length; i++) {
+        if (code[i].kind === 'punct' && code[i].text === '{') {
+            depth++;
+        } else if (code[i].kind === 'punct' && code[i].text === '}') {
+            depth--;
+        } else if (depth === 0) {
+            const value = valueAt(i);
+            if (value !== -1) {
+                return literalAt(i, value);
+            }
+        }
+    }
+    return undefined;
+}
+
+/** Parses a slice, array or map literal such as "[]struct{...}{...}" starting at index. */
+function parseCompositeLiteral(code: Token[], index: number): CompositeLiteral | undefined {
+    let isMap = false;
+    let j = index;
+    if (code[j]?.text === 'map' && code[j + 1]?.text === '[') {
+        isMap = true;
+        j = skipType(code, findClosing(code, j + 1) + 1);
+    } else if (code[j]?.text === '[') {
+        j = skipType(code, findClosing(code, j) + 1);
+    } else {
+        return undefined;
+    }
+
+    const close = j > 0 && code[j]?.text === '{' ? findClosing(code, j) : -1;
+    return close === -1 ? undefined : { isMap, open: j, close };
+}
+
+/** Index of the token after a type like "*pkg.T", "[]T", "map[K]V" or "struct{...}", or -1. */
+function skipType(code: Token[], index: number): number {
+    const token = code[index];
+    if (!token || index <= 0) {
+        return -1;
+    }
+    if (token.text === '*') {
+        return skipType(code, index + 1);
+    }
+    if (token.text === '[') {
+        return skipType(code, findClosing(code, index) + 1);
+    }
+    if (token.text === 'map' && code[index + 1]?.text === '[') {
+        return skipType(code, findClosing(code, index + 1) + 1);
+    }
+    if ((token.text === 'struct' || token.text === 'interface') && code[index + 1]?.text === '{') {
+        return findClosing(code, index + 1) + 1 || -1;
+    }
+    if (token.kind === 'ident') {
+        return code[index + 1]?.text === '.' && code[index + 2]?.kind === 'ident' ? index + 3 : index + 1;
+    }
+    return -1;
+}
+
+/** Matches "runner.Run(" at index. */
+function isRunCall(code: Token[], index: number, runner: string): boolean {
+    return code[index].text === runner && code[index].kind === 'ident' && code[index + 1]?.text === '.'
+        && code[index + 2]?.text === 'Run' && code[index + 3]?.text === '(' && code[index + 4] !== undefined;
+}
+
+/** Value of a Go string literal, or undefined for escapes JSON cannot express. */
+function unquote(literal: string): string | undefined {
+    if (literal.startsWith('`')) {
+        return literal.slice(1, -1);
+    }
+    try {
+        return JSON.parse(literal) as string;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+export interface GoModule {
+    root: string;
+    // Module path from go.mod, undefined for folders without a go.mod
+    modulePath?: string;
+    workspaceFolder: vscode.WorkspaceFolder;
+}
+
+/**
+ * Enumerates the Go modules of every workspace folder: all nested go.mod
+ * files plus the modules listed in a go.work `use` directive. A folder
+ * without any module is treated as a single module rooted at the folder.
+ */
+export async function findGoModules(): Promise<GoModule[]> {
+    const modules = new Map<string, GoModule>();
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        // Filtered here rather than with an exclude glob, which would replace files.exclude;
+        // modules under testdata are fixtures, not part of the workspace's tests
+        const goModFiles = (await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/go.mod')))
+            .filter(file => !isIgnoredByGo(path.relative(folder.uri.fsPath, path.dirname(file.fsPath))));
+        const workUses = await readGoWorkUses(folder.uri.fsPath);
+        const roots = [...goModFiles.map(file => path.dirname(file.fsPath)), ...workUses];
+
+        let folderHasModule = false;
+        for (const root of roots) {
+            if (modules.has(root)) {
+                folderHasModule = true;
+                continue;
+            }
+            const modulePath = await readModulePath(root);
+            if (modulePath) {
+                modules.set(root, { root, modulePath, workspaceFolder: folder });
+                folderHasModule = true;
+            }
+        }
+
+        if (!folderHasModule && !modules.has(folder.uri.fsPath)) {
+            modules.set(folder.uri.fsPath, { root: folder.uri.fsPath, workspaceFolder: folder });
+        }
+    }
+
+    return Array.from(modules.values()).sort((a, b) => a.root.localeCompare(b.root));
+}
+
+/** Returns the innermost module containing the given file or directory. */
+export function findModuleForPath(modules: GoModule[], fsPath: string): GoModule | undefined {
+    let best: GoModule | undefined;
+    for (const module of modules) {
+        const relative = path.relative(module.root, fsPath);
+        const inside = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+        if (inside && (!best || module.root.length > best.root.length)) {
+            best = module;
+        }
+    }
+    return best;
+}
+
+/**
+ * Whether go skips a path relative to a module root in patterns like ./...:
+ * anything under vendor or testdata, or under a name starting with "." or "_".
+ */
+export function isIgnoredByGo(relativePath: string): boolean {
+    return relativePath.split(/[\\/]/).some(part =>
+        part === 'vendor' || part === 'testdata' || part.startsWith('.') || part.startsWith('_'));
+}
+
+/** Returns the module whose path is the longest prefix of an import path. */
+export function findModuleForImportPath(modules: GoModule[], importPath: string): GoModule | undefined {
+    let best: GoModule | undefined;
+    for (const module of modules) {
+        const modulePath = module.modulePath;
+        if (modulePath && (importPath === modulePath || importPath.startsWith(modulePath + '/'))) {
+            if (!best || modulePath.length > best.modulePath!.length) {
+                best = module;
+            }
+        }
+    }
+    return best;
+}
+
+export async function readModulePath(root: string): Promise<string | undefined> {
+    const goMod = await fs.readFile(path.join(root, 'go.mod'), 'utf-8').catch(() => '');
+    const match = goMod.match(/^module\s+"?([^\s"]+)"?/m);
+    return match ? match[1] : undefined;
+}
+
+async function readGoWorkUses(folderRoot: string): Promise<string[]> {
+    const goWork = await fs.readFile(path.join(folderRoot, 'go.work'), 'utf-8').catch(() => '');
+    if (!goWork) {
+        return [];
+    }
+
+    const uses: string[] = [];
+    const content = goWork.replace(/\/\/.*$/gm, '');
+
+    // Both "use ./a" and "use ( ./a ./b )" forms
+    for (const block of content.matchAll(/^use\s*\(([^)]*)\)/gm)) {
+        uses.push(...block[1].split(/\s+/).filter(entry => entry));
+    }
+    for (const single of content.matchAll(/^use\s+([^\s(]+)/gm)) {
+        uses.push(single[1]);
+    }
+
+    return uses.map(entry => path.resolve(folderRoot, entry.replace(/^"|"$/g, '')));
+}
@@ -0,0 +1,261 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { scanFileHeader } from './goScanner';
+
+const execFileAsync = promisify(execFile);
+
+export interface GoListPackage {
+    ImportPath: string;
+    Dir: string;
+    // Set on the test variants printed by -test, e.g. "pkg [pkg.test]"
+    ForTest?: string;
+    GoFiles?: string[];
+    CgoFiles?: string[];
+    // Files excluded by build constraints for the current GOOS/GOARCH and tags
+    IgnoredGoFiles?: string[];
+    Imports?: string[];
+    TestImports?: string[];
+    XTestImports?: string[];
+    TestGoFiles?: string[];
+    XTestGoFiles?: string[];
+    Error?: { Err: string };
+}
+
+interface ModulePackages {
+    packages: Map<string, GoListPackage>;
+    // Modification times (-1 when missing) of go.mod/go.sum, every package file and every directory
+    // from the module root down to a package, whose mtime changes when a new package directory appears
+    stamps: Map<string, number>;
+    // Package clause, imports and build constraint of every package file, see scanFileHeader
+    headers: Map<string, string>;
+    checkedAt: number;
+}
+
+/**
+ * Packages of each module with their test files and import graph, loaded
+ * with a single `go list -json -test ./...` per module. Results are cached
+ * until go.mod, go.sum, the package clause, imports or build constraint of
+ * a package file, or a directory leading to a package changes, or until
+ * invalidated. Other edits to a file do not reload its module.
+ */
+export class PackageGraph {
+    // Bursts of lookups (e.g. one per changed file) reuse one freshness check. Kept below the
+    // continuous run debounce, so a check from before a save is never reused after it
+    private static readonly STAMP_CHECK_INTERVAL = 250;
+    private modules: Map<string, Promise<ModulePackages>> = new Map();
+
+    /** Loads (or returns the cached) packages of the module at root, by import path. */
+    async getPackages(root: string): Promise<Map<string, GoListPackage>> {
+        const cached = this.modules.get(root);
+        if (cached) {
+            const entry = await cached.catch(() => undefined);
+            if (entry && await this.isFresh(entry)) {
+                return entry.packages;
+            }
+            // Someone else may have started the reload meanwhile
+            const current = this.modules.get(root);
+            if (current && current !== cached) {
+                return (await current).packages;
+            }
+        }
+
+        const loading = this.load(root);
+        this.modules.set(root, loading);
+        // A failed load is retried next time
+        loading.catch(() => {
+            if (this.modules.get(root) === loading) {
+                this.modules.delete(root);
+            }
+        });
+        return (await loading).packages;
+    }
+
+    invalidate(root?: string): void {
+        if (root) {
+            this.modules.delete(root);
+        } else {
+            this.modules.clear();
+        }
+    }
+
+    /** Finds the package in a module whose directory is dir. */
+    async getPackageForDir(root: string, dir: string): Promise<GoListPackage | undefined> {
+        const packages = await this.getPackages(root);
+        for (const pkg of packages.values()) {
+            if (path.resolve(pkg.Dir) === path.resolve(dir)) {
+                return pkg;
+            }
+        }
+        return undefined;
+    }
+
+    /** Finds the innermost package of a module containing file, e.g. for files under testdata/. */
+    async getPackageForFile(root: string, file: string): Promise<GoListPackage | undefined> {
+        const packages = await this.getPackages(root);
+        let best: GoListPackage | undefined;
+        for (const pkg of packages.values()) {
+            const relative = path.relative(pkg.Dir, file);
+            const inside = !relative.startsWith('..') && !path.isAbsolute(relative);
+            if (inside && (!best || pkg.Dir.length > best.Dir.length)) {
+                best = pkg;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Returns the packages of the given modules whose tests depend on one of
+     * the changed packages, directly or through other packages, mapped to
+     * the reason they were selected.
+     */
+    async getAffectedPackages(roots: string[], changed: Set<string>): Promise<Map<string, string>> {
+        const packages = new Map<string, GoListPackage>();
+        for (const root of roots) {
+            for (const [importPath, pkg] of await this.getPackages(root)) {
+                packages.set(importPath, pkg);
+            }
+        }
+
+        // Reverse edges of the non-test import graph
+        const importedBy = new Map<string, string[]>();
+        for (const pkg of packages.values()) {
+            for (const imported of pkg.Imports ?? []) {
+                if (!importedBy.has(imported)) {
+                    importedBy.set(imported, []);
+                }
+                importedBy.get(imported)!.push(pkg.ImportPath);
+            }
+        }
+
+        // Every package that (transitively) imports a changed one, with the path that led there
+        const reasons = new Map<string, string>();
+        const queue: string[] = [];
+        for (const pkg of changed) {
+            reasons.set(pkg, 'changed');
+            queue.push(pkg);
+        }
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const importer of importedBy.get(current) ?? []) {
+                if (!reasons.has(importer)) {
+                    reasons.set(importer, `imports ${current}`);
+                    queue.push(importer);
+                }
+            }
+        }
+
+        // Test files add imports of their own that do not propagate further
+        for (const pkg of packages.values()) {
+            if (reasons.has(pkg.ImportPath)) {
+                continue;
+            }
+            const testImport = [...(pkg.TestImports ?? []), ...(pkg.XTestImports ?? [])].find(i => reasons.has(i));
+            if (testImport) {
+                reasons.set(pkg.ImportPath, `tests import ${testImport}`);
+            }
+        }
+
+        // Only packages of these modules can be tested
+        for (const importPath of reasons.keys()) {
+            if (!packages.has(importPath)) {
+                reasons.delete(importPath);
+            }
+        }
+        return reasons;
+    }
+
+    private async load(root: string): Promise<ModulePackages> {
+        const { stdout } = await execFileAsync('go', ['list', '-e', '-json', '-test', './...'], {
+            cwd: root,
+            maxBuffer: 256 * 1024 * 1024,
+            timeout: 120000
+        });
+
+        const packages = new Map<string, GoListPackage>();
+        for (const pkg of parseJsonStream<GoListPackage>(stdout)) {
+            // The plain package already lists its test files and test imports
+            if (!pkg.Dir || pkg.ForTest || pkg.ImportPath.endsWith('.test')) {
+                continue;
+            }
+            packages.set(pkg.ImportPath, pkg);
+        }
+
+        const stamps = new Map<string, number>();
+        const headers = new Map<string, string>();
+        const sourceFiles: string[] = [];
+        const dirs = new Set<string>([root]);
+        for (const pkg of packages.values()) {
+            sourceFiles.push(...packageFiles(pkg).map(name => path.join(pkg.Dir, name)));
+            for (let dir = pkg.Dir; !dirs.has(dir) && !path.relative(root, dir).startsWith('..'); dir = path.dirname(dir)) {
+                dirs.add(dir);
+            }
+        }
+        const files = [...['go.mod', 'go.sum'].map(name => path.join(root, name)), ...dirs];
+        await Promise.all([
+            ...files.map(async file => stamps.set(file, await modifiedTime(file))),
+            ...sourceFiles.map(async file => {
+                stamps.set(file, await modifiedTime(file));
+                headers.set(file, await readHeader(file));
+            })
+        ]);
+        return { packages, stamps, headers, checkedAt: Date.now() };
+    }
+
+    private async isFresh(entry: ModulePackages): Promise<boolean> {
+        if (Date.now() - entry.checkedAt < PackageGraph.STAMP_CHECK_INTERVAL) {
+            return true;
+        }
+        const checks = await Promise.all(Array.from(entry.stamps).map(async ([file, stamp]) => {
+            const current = await modifiedTime(file);
+            if (current === stamp) {
+                return true;
+            }
+            // A saved source file only matters when its package or imports changed
+            const header = entry.headers.get(file);
+            if (current === -1 || header === undefined || await readHeader(file) !== header) {
+                return false;
+            }
+            entry.stamps.set(file, current);
+            return true;
+        }));
+        if (checks.every(Boolean)) {
+            entry.checkedAt = Date.now();
+            return true;
+        }
+        return false;
+    }
+}
+
+function packageFiles(pkg: GoListPackage): string[] {
+    return [
+        ...(pkg.GoFiles ?? []),
+        ...(pkg.CgoFiles ?? []),
+        ...(pkg.IgnoredGoFiles ?? []),
+        ...(pkg.TestGoFiles ?? []),
+        ...(pkg.XTestGoFiles ?? [])
+    ];
+}
+
+async function readHeader(file: string): Promise<string> {
+    return scanFileHeader(await fs.readFile(file, 'utf-8').catch(() => ''));
+}
+
+async function modifiedTime(file: string): Promise<number> {
+    try {
+        return (await fs.stat(file)).mtimeMs;
+    } catch {
+        return -1;
+    }
+}
+
+/** Parses the concatenated JSON objects printed by `go list -json`. */
+export function parseJsonStream<T>(output: string): T[] {
+    // Top-level objects start with "{" at the beginning of a line; nested ones are indented
+    return output
+        .split(/\n(?=\{)/)
+        .map(chunk => chunk.trim())
+        .filter(chunk => chunk.length > 0)
+        .map(chunk => JSON.parse(chunk) as T);
+}
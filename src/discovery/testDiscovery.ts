@@ -1,105 +1,487 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises';
+import { setTestItemData, getTestItemData, TestItemKind, TEST_KIND_TAGS, FLAKY_TAG } from '../models/testItemData';
+import { GoModule, findGoModules, findModuleForPath, isIgnoredByGo } from './moduleDiscovery';
+import { PackageGraph } from './packageGraph';
+import { scanTestFile, Subtest } from './goScanner';
+import { getBuildContext, hasBuildConstraint, matchesBuildContext, BuildContext } from './buildConstraints';
+import { ProfileManager } from '../config/profileManager';
 
-const execAsync = promisify(exec);
+// A package directory and its test files, before the tests are extracted
+interface PackageCandidate {
+    dir: string;
+    module: GoModule;
+    files: vscode.Uri[];
+    // Import path from go list; derived from the module path when go list failed
+    package?: string;
+}
 
 interface PackageTests {
     package: string;
+    dir: string;
+    module: GoModule;
     tests: TestInfo[];
 }
 
 interface TestInfo {
+    name: string;
+    kind: TestItemKind;
+    uri: vscode.Uri;
+    range: vscode.Range;
+    // Examples without an "// Output:" comment are compiled but never run
+    hasOutput?: boolean;
+    subtests: SubtestInfo[];
+}
+
+interface SubtestInfo {
     name: string;
     uri: vscode.Uri;
     range: vscode.Range;
+    children: SubtestInfo[];
+    // Methods of a testify suite, selected with -testify.m
+    suiteMethod?: boolean;
 }
 
 export class TestDiscovery {
     private outputChannel: vscode.OutputChannel;
+    private modules: GoModule[];
+    private packageDirs: Map<string, string>; // package directory -> package id
+    private packageItems: Map<string, vscode.TestItem>; // package id -> package item
+    private fileConstraints: Map<string, string | undefined>; // test file -> //go:build expression
+    private watchers: vscode.FileSystemWatcher[];
+    private pendingDirs: Map<string, NodeJS.Timeout>;
+    private pendingDiscovery?: NodeJS.Timeout;
+    private static readonly WATCH_DEBOUNCE = 300; // ms to wait for a burst of saves to settle
 
-    constructor(private controller: vscode.TestController) {
+    constructor(
+        private controller: vscode.TestController,
+        private packageGraph: PackageGraph,
+        private profileManager: ProfileManager
+    ) {
         this.outputChannel = vscode.window.createOutputChannel('Go Test Discovery');
+        this.modules = [];
+        this.packageDirs = new Map();
+        this.packageItems = new Map();
+        this.fileConstraints = new Map();
+        this.watchers = [];
+        this.pendingDirs = new Map();
     }
 
     async discoverTests(): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        if (!vscode.workspace.workspaceFolders?.length) {
             return;
         }
 
         const startTime = Date.now();
-        this.controller.items.replace([]);
 
         try {
+            this.modules = await findGoModules();
+
             // Discover all tests in parallel using file-based approach
-            const packageTests = await this.findAllTests(workspaceFolder.uri.fsPath);
+            const packageTests = await this.findAllTests();
+            const seenPackages = new Set<string>();
             
-            for (const { package: pkg, tests } of packageTests) {
+            for (const { package: pkg, dir, module, tests } of packageTests) {
                 if (tests.length > 0) {
-                    const pkgItem = this.controller.createTestItem(
-                        pkg,
-                        pkg,
-                        vscode.Uri.file(workspaceFolder.uri.fsPath)
-                    );
-                    pkgItem.canResolveChildren = false;
-                    
-                    for (const testInfo of tests) {
-                        const testItem = this.controller.createTestItem(
-                            `${pkg}/${testInfo.name}`,
-                            testInfo.name,
-                            testInfo.uri
-                        );
-                        testItem.range = testInfo.range;
-                        testItem.canResolveChildren = false;
-                        pkgItem.children.add(testItem);
-                    }
-                    
-                    this.controller.items.add(pkgItem);
+                    this.applyPackageTests(pkg, dir, module, tests);
+                    seenPackages.add(pkg);
                 }
             }
+
+            // Drop packages that no longer have tests, keep the rest in place
+            for (const [pkg, pkgItem] of this.packageItems) {
+                if (!seenPackages.has(pkg)) {
+                    this.removePackageItem(pkgItem);
+                }
+            }
+            for (const [dir, pkg] of this.packageDirs) {
+                if (!seenPackages.has(pkg)) {
+                    this.packageDirs.delete(dir);
+                }
+            }
+            this.removeEmptyModuleItems();
             
             const elapsed = Date.now() - startTime;
-            this.outputChannel.appendLine(`Test discovery completed in ${elapsed}ms - found ${packageTests.reduce((sum, p) => sum + p.tests.length, 0)} tests in ${packageTests.length} packages`);
+            this.outputChannel.appendLine(`Test discovery completed in ${elapsed}ms - found ${packageTests.reduce((sum, p) => sum + p.tests.length, 0)} tests in ${packageTests.length} packages across ${this.modules.length} modules`);
         } catch (error) {
             console.error('Error discovering tests:', error);
             this.outputChannel.appendLine(`Error discovering tests: ${error}`);
         }
     }
 
-    private async findAllTests(workspaceRoot: string): Promise<PackageTests[]> {
+    /**
+     * Watches *_test.go files and re-discovers only the package of a changed file.
+     * Changes to go.mod/go.work files trigger a full discovery as modules may have moved.
+     */
+    startWatching(): void {
+        if (this.watchers.length > 0) {
+            return;
+        }
+
+        const testWatcher = vscode.workspace.createFileSystemWatcher('**/*_test.go');
+        const onFileEvent = (uri: vscode.Uri) => {
+            // Test files in directories go ignores (testdata fixtures and the like) are not tests
+            const dir = path.dirname(uri.fsPath);
+            const module = findModuleForPath(this.modules, dir);
+            if (module && !isIgnoredByGo(path.relative(module.root, dir))) {
+                this.schedulePackageRefresh(dir);
+            }
+        };
+        testWatcher.onDidCreate(onFileEvent);
+        testWatcher.onDidChange(onFileEvent);
+        testWatcher.onDidDelete(onFileEvent);
+
+        const moduleWatcher = vscode.workspace.createFileSystemWatcher('**/{go.mod,go.work}');
+        const onModuleEvent = () => this.scheduleDiscovery();
+        moduleWatcher.onDidCreate(onModuleEvent);
+        moduleWatcher.onDidChange(onModuleEvent);
+        moduleWatcher.onDidDelete(onModuleEvent);
+
+        this.watchers.push(testWatcher, moduleWatcher);
+    }
+
+    stopWatching(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+        for (const timer of this.pendingDirs.values()) {
+            clearTimeout(timer);
+        }
+        this.pendingDirs.clear();
+        if (this.pendingDiscovery) {
+            clearTimeout(this.pendingDiscovery);
+            this.pendingDiscovery = undefined;
+        }
+    }
+
+    private schedulePackageRefresh(dir: string): void {
+        const pending = this.pendingDirs.get(dir);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.pendingDirs.set(dir, setTimeout(() => {
+            this.pendingDirs.delete(dir);
+            this.refreshPackage(dir).catch(error => {
+                this.outputChannel.appendLine(`Error refreshing tests in ${dir}: ${error}`);
+            });
+        }, TestDiscovery.WATCH_DEBOUNCE));
+    }
+
+    private scheduleDiscovery(): void {
+        if (this.pendingDiscovery) {
+            clearTimeout(this.pendingDiscovery);
+        }
+        this.pendingDiscovery = setTimeout(() => {
+            this.pendingDiscovery = undefined;
+            // go.work changes are not covered by the package cache
+            this.packageGraph.invalidate();
+            this.discoverTests();
+        }, TestDiscovery.WATCH_DEBOUNCE);
+    }
+
+    async refreshPackage(dir: string): Promise<void> {
+        const module = findModuleForPath(this.modules, dir);
+        if (!module) {
+            return;
+        }
+
+        const entries = await fs.readdir(dir).catch(() => [] as string[]);
+        const files = entries
+            .filter(name => name.endsWith('_test.go'))
+            .map(name => vscode.Uri.file(path.join(dir, name)));
+        const tests = await this.extractTestsFromFiles(files);
+
+        let pkg = this.packageDirs.get(dir);
+        if (tests.length === 0) {
+            if (pkg) {
+                const pkgItem = this.packageItems.get(pkg);
+                if (pkgItem) {
+                    this.removePackageItem(pkgItem);
+                }
+                this.packageDirs.delete(dir);
+                this.removeEmptyModuleItems();
+                this.outputChannel.appendLine(`Removed package ${pkg} (no tests left)`);
+            }
+            return;
+        }
+
+        if (!pkg) {
+            // Probably a new package directory, which the cached package graph may predate
+            this.packageGraph.invalidate(module.root);
+            pkg = await this.getPackageName(dir, module);
+            if (!pkg) {
+                return;
+            }
+        }
+
+        this.applyPackageTests(pkg, dir, module, tests);
+        this.outputChannel.appendLine(`Refreshed ${tests.length} tests in ${pkg}`);
+    }
+
+    /**
+     * Creates or patches a package item so existing test items (and their
+     * results and expansion state) are kept across refreshes.
+     */
+    private applyPackageTests(pkg: string, dir: string, module: GoModule, tests: TestInfo[]): void {
+        this.packageDirs.set(dir, pkg);
+
+        // Packages are grouped under their module only when there is more than one
+        const moduleItem = this.modules.length > 1 ? this.getOrCreateModuleItem(module) : undefined;
+        const container = moduleItem ? moduleItem.children : this.controller.items;
+
+        let pkgItem = this.packageItems.get(pkg);
+        if (pkgItem && pkgItem.parent?.id !== moduleItem?.id) {
+            this.removePackageItem(pkgItem);
+            pkgItem = undefined;
+        }
+        if (!pkgItem) {
+            pkgItem = this.controller.createTestItem(pkg, pkg, vscode.Uri.file(dir));
+            pkgItem.canResolveChildren = false;
+            container.add(pkgItem);
+            this.packageItems.set(pkg, pkgItem);
+        }
+        setTestItemData(pkgItem, { kind: 'package', pkg, moduleRoot: module.root });
+
+        const seenTests = new Set<string>();
+        for (const testInfo of tests) {
+            const id = `${pkg}/${testInfo.name}`;
+            seenTests.add(id);
+
+            let testItem = pkgItem.children.get(id);
+            // A test item's uri is fixed, so a test moved to another file is recreated
+            if (testItem && testItem.uri?.fsPath !== testInfo.uri.fsPath) {
+                pkgItem.children.delete(id);
+                testItem = undefined;
+            }
+            if (!testItem) {
+                testItem = this.controller.createTestItem(id, testInfo.name, testInfo.uri);
+                testItem.canResolveChildren = false;
+                testItem.tags = [TEST_KIND_TAGS[testInfo.kind]];
+                pkgItem.children.add(testItem);
+            }
+            setTestItemData(testItem, {
+                kind: testInfo.kind,
+                pkg,
+                moduleRoot: module.root,
+                testName: testInfo.name,
+                hasOutput: testInfo.hasOutput
+            });
+            if (!testItem.range || !testItem.range.isEqual(testInfo.range)) {
+                testItem.range = testInfo.range;
+            }
+            this.applySubtests(testItem, testInfo.subtests, pkg, module);
+        }
+
+        for (const [id] of pkgItem.children) {
+            if (!seenTests.has(id)) {
+                pkgItem.children.delete(id);
+            }
+        }
+        this.describePackageTests(pkgItem);
+    }
+
+    /**
+     * Adds the subtests found in the source below a test item. Subtests that
+     * were only seen in test output are left alone.
+     */
+    private applySubtests(parent: vscode.TestItem, subtests: SubtestInfo[], pkg: string, module: GoModule): void {
+        const parentName = getTestItemData(parent)?.testName ?? parent.label;
+        const seen = new Set<string>();
+
+        for (const subtest of subtests) {
+            // go test replaces spaces and numbers duplicate names: "a b", "a b" -> "a_b", "a_b#01"
+            const base = subtest.name.replace(/\s/g, '_');
+            let name = base;
+            for (let n = 1; seen.has(name); n++) {
+                name = `${base}#${String(n).padStart(2, '0')}`;
+            }
+            seen.add(name);
+            // A "/" starts another level in go test's naming, which cannot be known statically
+            if (!name || name.includes('/')) {
+                continue;
+            }
+
+            const id = `${parent.id}/${name}`;
+            const kind = subtest.suiteMethod ? 'suiteMethod' : 'subtest';
+            let item = parent.children.get(id);
+            if (item && item.uri?.fsPath !== subtest.uri.fsPath) {
+                parent.children.delete(id);
+                item = undefined;
+            }
+            if (!item) {
+                item = this.controller.createTestItem(id, name, subtest.uri);
+                parent.children.add(item);
+            }
+            item.tags = [TEST_KIND_TAGS[kind]];
+            if (!item.range || !item.range.isEqual(subtest.range)) {
+                item.range = subtest.range;
+            }
+            setTestItemData(item, { kind, pkg, moduleRoot: module.root, testName: `${parentName}/${name}`, fromSource: true });
+            this.applySubtests(item, subtest.children, pkg, module);
+        }
+
+        for (const [id, item] of parent.children) {
+            if (getTestItemData(item)?.fromSource && !seen.has(item.label)) {
+                parent.children.delete(id);
+            }
+        }
+    }
+
+    /** Re-marks tests excluded by build constraints, e.g. after the active profile changed. */
+    markExcludedTests(): void {
+        this.packageItems.forEach(pkgItem => this.describePackageTests(pkgItem));
+    }
+
+    private describePackageTests(pkgItem: vscode.TestItem): void {
+        const pkgData = getTestItemData(pkgItem);
+        // The profile's tags and environment are only looked up for packages that need them
+        let context: BuildContext | undefined;
+        const getContext = () => {
+            if (!context) {
+                const config = this.profileManager.getEffectiveConfig(pkgData?.pkg, undefined, pkgData?.moduleRoot);
+                context = getBuildContext(config.testFlags, { ...process.env, ...config.testEnvVars });
+            }
+            return context;
+        };
+
+        pkgItem.children.forEach(testItem => {
+            const data = getTestItemData(testItem);
+            const file = testItem.uri?.fsPath ?? '';
+            const constraint = this.fileConstraints.get(file);
+            const excluded = hasBuildConstraint(file, constraint) && !matchesBuildContext(file, constraint, getContext());
+
+            const notes: string[] = [];
+            if (excluded) {
+                notes.push(constraint ? `excluded by build constraints (${constraint})` : 'excluded by build constraints');
+            }
+            if (data?.kind === 'example' && !data.hasOutput) {
+                notes.push('no output to verify');
+            }
+            // Keep the flaky marker set by the runner
+            const description = notes.join(' · ') || undefined;
+            const flaky = testItem.tags.some(tag => tag.id === FLAKY_TAG.id);
+            testItem.description = flaky ? (description ? `⚠ flaky · ${description}` : '⚠ flaky') : description;
+        });
+    }
+
+    private getOrCreateModuleItem(module: GoModule): vscode.TestItem {
+        const id = `module:${module.root}`;
+        let moduleItem = this.controller.items.get(id);
+        if (!moduleItem) {
+            const label = module.modulePath ?? path.basename(module.root);
+            moduleItem = this.controller.createTestItem(id, label, vscode.Uri.file(module.root));
+            moduleItem.canResolveChildren = false;
+            moduleItem.tags = [TEST_KIND_TAGS.module];
+            this.controller.items.add(moduleItem);
+        }
+
+        const relative = path.relative(module.workspaceFolder.uri.fsPath, module.root).replace(/\\/g, '/');
+        const location = relative && !relative.startsWith('..') ? relative : module.root;
+        moduleItem.description = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+            ? `${module.workspaceFolder.name}: ${location}`
+            : location;
+        setTestItemData(moduleItem, { kind: 'module', pkg: module.modulePath ?? '', moduleRoot: module.root });
+        return moduleItem;
+    }
+
+    private removePackageItem(pkgItem: vscode.TestItem): void {
+        (pkgItem.parent ? pkgItem.parent.children : this.controller.items).delete(pkgItem.id);
+        this.packageItems.delete(pkgItem.id);
+    }
+
+    private removeEmptyModuleItems(): void {
+        const grouped = this.modules.length > 1;
+        for (const [id, item] of this.controller.items) {
+            if (getTestItemData(item)?.kind === 'module' && (!grouped || item.children.size === 0)) {
+                this.controller.items.delete(id);
+            }
+        }
+    }
+
+    getPackageItem(pkg: string): vscode.TestItem | undefined {
+        return this.packageItems.get(pkg);
+    }
+
+    getPackageItems(): vscode.TestItem[] {
+        return Array.from(this.packageItems.values());
+    }
+
+    getModules(): GoModule[] {
+        return this.modules;
+    }
+
+    dispose(): void {
+        this.stopWatching();
+        this.outputChannel.dispose();
+    }
+
+    private async findAllTests(): Promise<PackageTests[]> {
+        const candidates: PackageCandidate[] = [];
+        for (const module of this.modules) {
+            candidates.push(...await this.findModuleCandidates(module));
+        }
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        // Process packages in parallel with concurrency limit
+        const results = await this.processPackagesConcurrently(
+            candidates,
+            10 // Max concurrent operations
+        );
+
+        return results.filter(r => r.tests.length > 0);
+    }
+
+    /**
+     * Lists the test files of every package in a module with one go list call.
+     * Modules go list cannot load (no go.mod, no go binary) fall back to
+     * searching for *_test.go files.
+     */
+    private async findModuleCandidates(module: GoModule): Promise<PackageCandidate[]> {
+        try {
+            const packages = await this.packageGraph.getPackages(module.root);
+            const candidates: PackageCandidate[] = [];
+            for (const pkg of packages.values()) {
+                // Test files excluded by build constraints are still shown
+                const names = [
+                    ...(pkg.TestGoFiles ?? []),
+                    ...(pkg.XTestGoFiles ?? []),
+                    ...(pkg.IgnoredGoFiles ?? []).filter(name => name.endsWith('_test.go'))
+                ];
+                if (names.length > 0 && findModuleForPath(this.modules, pkg.Dir) === module) {
+                    candidates.push({
+                        dir: pkg.Dir,
+                        module,
+                        files: names.map(name => vscode.Uri.file(path.join(pkg.Dir, name))),
+                        package: pkg.ImportPath
+                    });
+                }
+            }
+            return candidates;
+        } catch (error) {
+            this.outputChannel.appendLine(`go list failed in ${module.root}, searching for test files instead: ${error}`);
+        }
+
         try {
-            // Find all *_test.go files
             const testFiles = await vscode.workspace.findFiles(
-                new vscode.RelativePattern(workspaceRoot, '**/*_test.go'),
+                new vscode.RelativePattern(module.root, '**/*_test.go'),
                 '**/vendor/**'
             );
 
-            if (testFiles.length === 0) {
-                return [];
-            }
-
-            // Group files by package directory
+            // Group files by package directory, leaving nested modules to themselves
             const packageMap = new Map<string, vscode.Uri[]>();
-            
             for (const file of testFiles) {
                 const dir = path.dirname(file.fsPath);
+                if (findModuleForPath(this.modules, dir) !== module) {
+                    continue;
+                }
                 if (!packageMap.has(dir)) {
                     packageMap.set(dir, []);
                 }
                 packageMap.get(dir)!.push(file);
             }
-
-            // Process packages in parallel with concurrency limit
-            const results = await this.processPackagesConcurrently(
-                Array.from(packageMap.entries()),
-                workspaceRoot,
-                10 // Max concurrent operations
-            );
-
-            return results.filter(r => r.tests.length > 0);
+            return Array.from(packageMap, ([dir, files]) => ({ dir, module, files }));
         } catch (error) {
             console.error('Error finding test files:', error);
             return [];
@@ -107,12 +489,11 @@ export class TestDiscovery {
     }
 
     private async processPackagesConcurrently(
-        packageDirs: [string, vscode.Uri[]][],
-        workspaceRoot: string,
+        candidates: PackageCandidate[],
         concurrency: number
     ): Promise<PackageTests[]> {
         const results: PackageTests[] = [];
-        const queue = [...packageDirs];
+        const queue = [...candidates];
         const inProgress: Promise<void>[] = [];
 
         const processNext = async () => {
@@ -120,21 +501,20 @@ export class TestDiscovery {
                 const item = queue.shift();
                 if (!item) break;
 
-                const [dir, files] = item;
+                const { dir, module, files } = item;
                 const tests = await this.extractTestsFromFiles(files);
                 
                 if (tests.length > 0) {
-                    // Get package name
-                    const pkg = await this.getPackageName(dir, workspaceRoot);
+                    const pkg = item.package ?? derivePackageName(dir, module);
                     if (pkg) {
-                        results.push({ package: pkg, tests });
+                        results.push({ package: pkg, dir, module, tests });
                     }
                 }
             }
         };
 
         // Start concurrent workers
-        for (let i = 0; i < concurrency && i < packageDirs.length; i++) {
+        for (let i = 0; i < concurrency && i < candidates.length; i++) {
             inProgress.push(processNext());
         }
 
@@ -144,69 +524,107 @@ export class TestDiscovery {
 
     private async extractTestsFromFiles(files: vscode.Uri[]): Promise<TestInfo[]> {
         const testInfos: TestInfo[] = [];
+        // A suite's methods may be spread over several files of the package
+        const suiteMethods = new Map<string, SubtestInfo[]>();
+        const suiteTests: [TestInfo, string][] = [];
         
         // Read all files in parallel
         const fileContents = await Promise.all(
             files.map(file => fs.readFile(file.fsPath, 'utf-8').catch(() => ''))
         );
 
-        // Extract test function names with their locations using regex
-        const testFuncRegex = /func\s+(Test\w+)\s*\(/g;
-        
         for (let i = 0; i < fileContents.length; i++) {
             const content = fileContents[i];
             const file = files[i];
-            const lines = content.split('\n');
+            const { buildConstraint, functions, suiteMethods: methods } = scanTestFile(content);
+            this.fileConstraints.set(file.fsPath, buildConstraint);
+
+            const lineStarts = [0];
+            for (let offset = content.indexOf('\n'); offset !== -1; offset = content.indexOf('\n', offset + 1)) {
+                lineStarts.push(offset + 1);
+            }
             
-            let match;
-            testFuncRegex.lastIndex = 0; // Reset regex state
+            const toRange = (start: number, end: number) =>
+                new vscode.Range(toPosition(lineStarts, start), toPosition(lineStarts, end));
+            const toSubtestInfo = (subtest: Subtest): SubtestInfo => ({
+                name: subtest.name,
+                uri: file,
+                range: toRange(subtest.start, subtest.end),
+                children: subtest.children.map(toSubtestInfo)
+            });
             
-            while ((match = testFuncRegex.exec(content)) !== null) {
-                const testName = match[1];
-                const position = match.index;
-                
-                // Find line number
-                let lineNum = 0;
-                let charCount = 0;
-                for (let j = 0; j < lines.length; j++) {
-                    charCount += lines[j].length + 1; // +1 for newline
-                    if (charCount > position) {
-                        lineNum = j;
-                        break;
-                    }
+            for (const fn of functions) {
+                const testInfo: TestInfo = {
+                    name: fn.name,
+                    kind: fn.kind,
+                    uri: file,
+                    // The whole declaration; the gutter icon goes on its first line
+                    range: toRange(fn.start, fn.end),
+                    hasOutput: fn.hasOutput,
+                    subtests: fn.subtests.map(toSubtestInfo)
+                };
+                testInfos.push(testInfo);
+                if (fn.suite) {
+                    suiteTests.push([testInfo, fn.suite]);
                 }
-                
-                const range = new vscode.Range(
-                    new vscode.Position(lineNum, 0),
-                    new vscode.Position(lineNum, lines[lineNum]?.length || 0)
-                );
-                
-                testInfos.push({
-                    name: testName,
+            }
+            for (const method of methods) {
+                if (!suiteMethods.has(method.suite)) {
+                    suiteMethods.set(method.suite, []);
+                }
+                suiteMethods.get(method.suite)!.push({
+                    name: method.name,
                     uri: file,
-                    range: range
+                    range: toRange(method.start, method.end),
+                    children: [],
+                    suiteMethod: true
                 });
             }
         }
 
+        for (const [testInfo, suite] of suiteTests) {
+            const methods = [...suiteMethods.get(suite) ?? []].sort((a, b) => a.name.localeCompare(b.name));
+            testInfo.subtests.push(...methods);
+        }
+
         return testInfos.sort((a, b) => a.name.localeCompare(b.name));
     }
 
-    private async getPackageName(dir: string, workspaceRoot: string): Promise<string | null> {
+    /** Undefined for directories go list does not know as a package; derived only when go list fails. */
+    private async getPackageName(dir: string, module: GoModule): Promise<string | undefined> {
         try {
-            // Try to get package path from go.mod
-            const { stdout } = await execAsync(
-                `go list -f "{{.ImportPath}}"`,
-                { cwd: dir, timeout: 5000 }
-            );
-            return stdout.trim();
+            const pkg = await this.packageGraph.getPackageForDir(module.root, dir);
+            return pkg?.ImportPath;
         } catch (error) {
-            // Fallback: use relative path
-            const relativePath = path.relative(workspaceRoot, dir);
-            if (relativePath && relativePath !== '.') {
-                return relativePath.replace(/\\/g, '/');
-            }
-            return null;
+            // go list failed - derive the import path instead
+            return derivePackageName(dir, module);
+        }
+    }
+}
+
+function toPosition(lineStarts: number[], offset: number): vscode.Position {
+    // Last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
         }
     }
+    return new vscode.Position(low, offset - lineStarts[low]);
+}
+
+/** Derives the import path from the module path, or uses the relative path. */
+function derivePackageName(dir: string, module: GoModule): string | undefined {
+    const relativePath = path.relative(module.root, dir).replace(/\\/g, '/');
+    if (module.modulePath) {
+        return relativePath ? `${module.modulePath}/${relativePath}` : module.modulePath;
+    }
+    if (relativePath && relativePath !== '.') {
+        return relativePath;
+    }
+    return undefined;
 }
@@ -1,9 +1,17 @@
 import * as vscode from 'vscode';
 import { TestController } from './testController';
+import { registerAssertionDiffParser } from './runner/assertionDiff';
+
+export type { AssertionDiff, AssertionDiffParser } from './runner/assertionDiff';
+
+/** Returned from activate, for other extensions to reach through the extension's exports. */
+export interface GoTestRunnerApi {
+    registerAssertionDiffParser: typeof registerAssertionDiffParser;
+}
 
 let testController: TestController | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): GoTestRunnerApi {
     console.log('Go Test Runner extension activated');
     
     testController = new TestController(context);
@@ -18,11 +26,38 @@ export function activate(context: vscode.ExtensionContext) {
         () => testController?.selectProfile()
     );
     
+    const profileCommands = (['create', 'duplicate', 'rename', 'edit', 'delete'] as const).map(action =>
+        vscode.commands.registerCommand(
+            `goTestRunner.${action}Profile`,
+            () => testController?.manageProfiles(action)
+        )
+    );
+    
+    const showEffectiveProfileCommand = vscode.commands.registerCommand(
+        'goTestRunner.showEffectiveProfile',
+        () => testController?.showEffectiveProfile()
+    );
+    
     const runAllTestsCommand = vscode.commands.registerCommand(
         'goTestRunner.runAllTests',
         () => testController?.runAllTests()
     );
     
+    const runWithProfilesCommand = vscode.commands.registerCommand(
+        'goTestRunner.runWithProfiles',
+        (item?: vscode.TestItem, items?: vscode.TestItem[]) => testController?.runWithProfiles(item, items)
+    );
+    
+    const rerunFailedCommand = vscode.commands.registerCommand(
+        'goTestRunner.rerunFailed',
+        () => testController?.rerunFailedTests()
+    );
+    
+    const runAffectedCommand = vscode.commands.registerCommand(
+        'goTestRunner.runAffected',
+        () => testController?.runAffectedTests()
+    );
+    
     const toggleFilterCommand = vscode.commands.registerCommand(
         'goTestRunner.toggleOutputFilter',
         () => testController?.toggleOutputFilter()
@@ -33,9 +68,21 @@ export function activate(context: vscode.ExtensionContext) {
         () => testController?.clearAllResults()
     );
     
-    context.subscriptions.push(refreshCommand, selectProfileCommand, runAllTestsCommand, toggleFilterCommand, clearAllResultsCommand);
+    const exportReportCommand = vscode.commands.registerCommand(
+        'goTestRunner.exportReport',
+        () => testController?.exportReport()
+    );
+    
+    const showTestHistoryCommand = vscode.commands.registerCommand(
+        'goTestRunner.showTestHistory',
+        (item?: vscode.TestItem) => testController?.showTestHistory(item)
+    );
+    
+    context.subscriptions.push(refreshCommand, selectProfileCommand, showEffectiveProfileCommand, runAllTestsCommand, runWithProfilesCommand, rerunFailedCommand, runAffectedCommand, toggleFilterCommand, clearAllResultsCommand, exportReportCommand, showTestHistoryCommand, ...profileCommands);
     
     vscode.window.showInformationMessage('Go Test Runner is ready!');
+
+    return { registerAssertionDiffParser };
 }
 
 export function deactivate() {
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface TestHistoryEntry {
+    status: 'pass' | 'fail' | 'skip';
+    duration?: number; // ms
+    profile: string;
+    timestamp: number;
+    commit?: string;
+    // Fingerprint of the uncommitted changes on top of commit, '' when there were none
+    worktree?: string;
+}
+
+export interface TestHistoryRecord {
+    id: string;
+    name: string;
+    entries: TestHistoryEntry[]; // newest first
+}
+
+interface SourceState {
+    commit: string;
+    worktree: string;
+}
+
+interface HistoryFile {
+    version: number;
+    tests: TestHistoryRecord[];
+}
+
+/**
+ * Persists recent outcomes per test in the extension's storage and
+ * classifies tests as flaky when they both passed and failed on the same
+ * source, i.e. one commit with the same uncommitted changes.
+ */
+export class TestHistory {
+    private records: Map<string, TestHistoryRecord> = new Map();
+    private loaded: Promise<void>;
+    private saving: Promise<void> = Promise.resolve();
+    private sourceCache: Map<string, Promise<SourceState | undefined>> = new Map();
+    private static readonly MAX_ENTRIES_PER_TEST = 20;
+    private static readonly FILE_NAME = 'test-history.json';
+
+    constructor(private storageUri: vscode.Uri) {
+        this.loaded = this.load();
+    }
+
+    async record(
+        results: { id: string; name: string; status: TestHistoryEntry['status']; duration?: number; cwd?: string }[],
+        profile: string
+    ): Promise<void> {
+        await this.loaded;
+        const timestamp = Date.now();
+        // The source state is looked up once per run and directory
+        this.sourceCache.clear();
+
+        for (const result of results) {
+            const source = result.cwd ? await this.getSource(result.cwd) : undefined;
+            let record = this.records.get(result.id);
+            if (!record) {
+                record = { id: result.id, name: result.name, entries: [] };
+                this.records.set(result.id, record);
+            }
+            record.entries.unshift({
+                status: result.status,
+                duration: result.duration,
+                profile,
+                timestamp,
+                commit: source?.commit,
+                worktree: source?.worktree
+            });
+            record.entries.length = Math.min(record.entries.length, TestHistory.MAX_ENTRIES_PER_TEST);
+        }
+
+        await this.save();
+    }
+
+    getRecord(testId: string): TestHistoryRecord | undefined {
+        return this.records.get(testId);
+    }
+
+    getRecords(): TestHistoryRecord[] {
+        return Array.from(this.records.values());
+    }
+
+    async whenLoaded(): Promise<void> {
+        await this.loaded;
+    }
+
+    /**
+     * A test is flaky when it both passed and failed on the same source. Fixing
+     * a test before committing changes the uncommitted changes, so red then
+     * green while editing does not count.
+     */
+    isFlaky(testId: string): boolean {
+        const record = this.records.get(testId);
+        if (!record) {
+            return false;
+        }
+
+        const outcomesBySource = new Map<string, Set<string>>();
+        for (const entry of record.entries) {
+            // Entries recorded without a fingerprint cannot tell edits apart
+            if (!entry.commit || entry.worktree === undefined || entry.status === 'skip') {
+                continue;
+            }
+            const source = `${entry.commit}:${entry.worktree}`;
+            if (!outcomesBySource.has(source)) {
+                outcomesBySource.set(source, new Set());
+            }
+            const outcomes = outcomesBySource.get(source)!;
+            outcomes.add(entry.status);
+            if (outcomes.size > 1) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private getSource(cwd: string): Promise<SourceState | undefined> {
+        if (!this.sourceCache.has(cwd)) {
+            this.sourceCache.set(cwd, readSourceState(cwd).catch(() => undefined));
+        }
+        return this.sourceCache.get(cwd)!;
+    }
+
+    private get filePath(): string {
+        return path.join(this.storageUri.fsPath, TestHistory.FILE_NAME);
+    }
+
+    private async load(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            const data = JSON.parse(content) as HistoryFile;
+            for (const record of data.tests ?? []) {
+                this.records.set(record.id, record);
+            }
+        } catch (error) {
+            // No history yet (or unreadable) - start empty
+        }
+    }
+
+    private save(): Promise<void> {
+        // Serialize writes so concurrent runs cannot interleave them
+        this.saving = this.saving.then(async () => {
+            const data: HistoryFile = { version: 1, tests: this.getRecords() };
+            try {
+                await fs.mkdir(this.storageUri.fsPath, { recursive: true });
+                await fs.writeFile(this.filePath, JSON.stringify(data), 'utf-8');
+            } catch (error) {
+                console.error('Error saving test history:', error);
+            }
+        });
+        return this.saving;
+    }
+}
+
+/**
+ * Reads HEAD and fingerprints the uncommitted changes of the repository: the
+ * diff against HEAD plus the names and modification times of untracked files.
+ */
+async function readSourceState(cwd: string): Promise<SourceState | undefined> {
+    const git = async (args: string[]) =>
+        (await execFileAsync('git', args, { cwd, timeout: 5000, maxBuffer: 64 * 1024 * 1024 })).stdout;
+
+    const commit = (await git(['rev-parse', 'HEAD'])).trim();
+    if (!commit) {
+        return undefined;
+    }
+    const [diff, untracked] = await Promise.all([
+        git(['diff', 'HEAD', '--no-ext-diff', '--binary']),
+        git(['ls-files', '--others', '--exclude-standard', '-z', ':/'])
+    ]);
+    if (!diff && !untracked) {
+        return { commit, worktree: '' };
+    }
+
+    const hash = createHash('sha1').update(diff);
+    for (const file of untracked.split('\0').filter(Boolean)) {
+        const modified = await fs.stat(path.join(cwd, file)).then(stat => stat.mtimeMs, () => -1);
+        hash.update(`${file}\0${modified}\0`);
+    }
+    return { commit, worktree: hash.digest('hex').substring(0, 12) };
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+
+export type TestItemKind = 'module' | 'package' | 'test' | 'benchmark' | 'fuzz' | 'example' | 'subtest' | 'suiteMethod';
+
+export interface TestItemData {
+    kind: TestItemKind;
+    pkg: string;
+    // Directory of the module the item belongs to, used as cwd for go commands
+    moduleRoot?: string;
+    // Full go test name, e.g. "TestFoo/case_1" (undefined for packages)
+    testName?: string;
+    // Examples only: whether the function has an "// Output:" comment to verify
+    hasOutput?: boolean;
+    // Subtests found in the source; others are only created from test output
+    fromSource?: boolean;
+}
+
+// Tags let the Test Explorer filter by function kind (e.g. "@goTestRunner:benchmark")
+export const TEST_KIND_TAGS: { [kind in TestItemKind]: vscode.TestTag } = {
+    module: new vscode.TestTag('module'),
+    package: new vscode.TestTag('package'),
+    test: new vscode.TestTag('test'),
+    benchmark: new vscode.TestTag('benchmark'),
+    fuzz: new vscode.TestTag('fuzz'),
+    example: new vscode.TestTag('example'),
+    subtest: new vscode.TestTag('subtest'),
+    suiteMethod: new vscode.TestTag('suiteMethod')
+};
+
+// Set on tests whose history shows both passes and failures on one commit
+export const FLAKY_TAG = new vscode.TestTag('flaky');
+
+const itemData = new WeakMap<vscode.TestItem, TestItemData>();
+
+export function setTestItemData(item: vscode.TestItem, data: TestItemData): void {
+    itemData.set(item, data);
+}
+
+export function getTestItemData(item: vscode.TestItem): TestItemData | undefined {
+    return itemData.get(item);
+}
+
+export function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function isBenchmarkName(testName: string): boolean {
+    return /^Benchmark(?![a-z])/.test(testName);
+}
+
+function alternation(names: string[]): string {
+    return names.length === 1
+        ? `^${escapeRegex(names[0])}$`
+        : `^(${names.map(escapeRegex).join('|')})$`;
+}
+
+/**
+ * Returns the go test selection flags needed to run the given tests of one
+ * package, as one flag set per go test invocation. Top-level tests share a
+ * single invocation; benchmarks only run under -bench, which can sit next to
+ * -run in the same invocation. Fuzz targets run through -run, which exercises
+ * only their seed corpus. Since the levels of a -run pattern cannot be mixed,
+ * subtests get one extra invocation per parent whose other subtests should
+ * not run. Methods of testify suites (given as "TestSuite/TestMethod") are
+ * selected with -testify.m, one invocation per suite.
+ */
+export function buildSelectionArgs(testNames: string[], suiteMethods: Set<string> = new Set()): string[][] {
+    const topLevel = testNames.filter(name => !name.includes('/'));
+    const tests = topLevel.filter(name => !isBenchmarkName(name));
+    const benchmarks = topLevel.filter(isBenchmarkName);
+    const invocations: string[][] = [];
+
+    if (topLevel.length > 0) {
+        const args = ['-run', tests.length > 0 ? alternation(tests) : '^$'];
+        if (benchmarks.length > 0) {
+            args.push('-bench', alternation(benchmarks));
+        }
+        invocations.push(args);
+    }
+
+    // Subtests of a parent that already runs as a whole need no extra invocation
+    const byParent = new Map<string, string[]>();
+    const bySuite = new Map<string, string[]>();
+    for (const name of testNames) {
+        const parent = name.split('/')[0];
+        if (name.includes('/') && !topLevel.includes(parent)) {
+            const group = suiteMethods.has(name) ? bySuite : byParent;
+            group.set(parent, [...(group.get(parent) ?? []), name]);
+        }
+    }
+
+    for (const [suite, names] of bySuite) {
+        // "=" keeps go test from reading the pattern as a package argument
+        const methods = names.map(name => name.substring(suite.length + 1));
+        invocations.push(['-run', alternation([suite]), `-testify.m=${alternation(methods)}`]);
+    }
+
+    for (const [parent, names] of byParent) {
+        const selectionFlag = (pattern: string) => isBenchmarkName(parent)
+            ? ['-run', '^$', '-bench', pattern]
+            : ['-run', pattern];
+
+        if (names.every(name => name.split('/').length === 2)) {
+            const subtests = names.map(name => name.substring(parent.length + 1));
+            invocations.push(selectionFlag(`${alternation([parent])}/${alternation(subtests)}`));
+        } else {
+            names.forEach(name => invocations.push(selectionFlag(buildRunPattern(name))));
+        }
+    }
+
+    return invocations;
+}
+
+/**
+ * Returns the flags that make a whole-package run also run the given
+ * top-level benchmarks, as go test runs no benchmarks without -bench.
+ */
+export function buildBenchmarkArgs(benchmarks: string[]): string[] {
+    return benchmarks.length > 0 ? ['-bench', alternation(benchmarks)] : [];
+}
+
+/**
+ * Builds a -skip pattern for excluded tests. Like -run, -skip matches each
+ * level separately, so top-level tests and subtests of a single parent can
+ * be combined; anything else is returned as ignored.
+ */
+export function buildSkipPattern(testNames: string[]): { pattern?: string; ignored: string[] } {
+    if (testNames.length === 0) {
+        return { ignored: [] };
+    }
+    if (testNames.length === 1) {
+        return { pattern: buildRunPattern(testNames[0]), ignored: [] };
+    }
+
+    const topLevel = testNames.filter(name => !name.includes('/'));
+    const nested = testNames.filter(name => name.includes('/'));
+    if (topLevel.length > 0) {
+        // A skipped parent also skips its subtests
+        const ignored = nested.filter(name => !topLevel.includes(name.split('/')[0]));
+        return { pattern: alternation(topLevel), ignored };
+    }
+
+    const parents = new Set(nested.map(name => name.split('/')[0]));
+    if (parents.size === 1 && nested.every(name => name.split('/').length === 2)) {
+        const parent = nested[0].split('/')[0];
+        const subtests = nested.map(name => name.substring(parent.length + 1));
+        return { pattern: `${alternation([parent])}/${alternation(subtests)}`, ignored: [] };
+    }
+
+    return { pattern: buildRunPattern(nested[0]), ignored: nested.slice(1) };
+}
+
+/**
+ * Builds a -run pattern matching exactly one test or subtest. go test splits
+ * the pattern on '/' and matches each level separately, so every level is
+ * anchored and escaped on its own.
+ */
+export function buildRunPattern(testName: string): string {
+    return testName
+        .split('/')
+        .map(part => `^${escapeRegex(part)}$`)
+        .join('/');
+}
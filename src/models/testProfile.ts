@@ -1,5 +1,39 @@
 export interface TestProfile {
     name: string;
+    // Profile to inherit from: its testFlags come first, env vars and overrides are merged
+    extends?: string;
+    testFlags: string[];
+    testEnvVars: { [key: string]: string };
+    buildTags?: string[];
+    timeout?: string;
+    count?: number;
+    shuffle?: 'on' | 'off' | number;
+    // dotenv file(s) loaded before testEnvVars, relative to the workspace folder
+    envFile?: string | string[];
+    // Import path globs ("*" within a path element, "**" or "..." across them)
+    packages?: {
+        include?: string[];
+        exclude?: string[];
+    };
+    overrides?: PackageOverride[];
+    // Write JUnit XML, go test -json and JSON summary reports after every run
+    autoExportReport?: boolean;
+}
+
+/** Settings applied on top of the profile for packages matching one of the globs. */
+export interface PackageOverride {
+    packages: string[];
+    testFlags?: string[];
+    testEnvVars?: { [key: string]: string };
+    buildTags?: string[];
+    timeout?: string;
+    count?: number;
+    shuffle?: 'on' | 'off' | number;
+}
+
+/** Flags and environment for one go test process, after inheritance and overrides. */
+export interface EffectiveTestConfig {
+    profile: string;
     testFlags: string[];
     testEnvVars: { [key: string]: string };
 }
@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+export type ReportFormat = 'junit' | 'events' | 'summary';
+
+export interface ReportTestResult {
+    id: string;
+    pkg: string;
+    name: string;
+    status: 'pass' | 'fail' | 'skip';
+    elapsed?: number; // seconds, as reported by go test
+    failureOutput?: string;
+    skipReason?: string;
+}
+
+export interface ReportPackageResult {
+    pkg: string;
+    status: 'pass' | 'fail' | 'skip';
+    elapsed?: number;
+}
+
+export interface TestRunReport {
+    profile: string;
+    startTime: number;
+    endTime: number;
+    tests: ReportTestResult[];
+    packages: ReportPackageResult[];
+    // Raw go test -json output of the run, if it was recorded
+    eventLogPath?: string;
+}
+
+export const REPORT_FILE_NAMES: { [format in ReportFormat]: string } = {
+    junit: 'go-test-report.xml',
+    events: 'go-test-events.jsonl',
+    summary: 'go-test-summary.json'
+};
+
+/**
+ * Streams the raw go test -json lines of a run to a temporary file, so the
+ * event log can be exported without keeping every event in memory.
+ */
+export class EventLogWriter {
+    readonly path: string;
+    private stream: fs.WriteStream;
+
+    constructor() {
+        this.path = path.join(os.tmpdir(), `go-test-runner-events-${process.pid}-${Date.now()}.jsonl`);
+        this.stream = fs.createWriteStream(this.path, { encoding: 'utf-8' });
+        this.stream.on('error', error => console.error('Error writing event log:', error));
+    }
+
+    write(line: string): void {
+        this.stream.write(line + '\n');
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => this.stream.end(() => resolve()));
+    }
+
+    async delete(): Promise<void> {
+        await this.close();
+        await fs.promises.rm(this.path, { force: true }).catch(() => undefined);
+    }
+}
+
+/**
+ * Writes the requested report formats into a directory and returns the
+ * paths of the written files.
+ */
+export async function writeReports(report: TestRunReport, directory: string, formats: ReportFormat[]): Promise<string[]> {
+    await fs.promises.mkdir(directory, { recursive: true });
+    const written: string[] = [];
+
+    for (const format of formats) {
+        const target = path.join(directory, REPORT_FILE_NAMES[format]);
+        switch (format) {
+            case 'junit':
+                await fs.promises.writeFile(target, toJUnitXml(report), 'utf-8');
+                break;
+            case 'summary':
+                await fs.promises.writeFile(target, toSummaryJson(report), 'utf-8');
+                break;
+            case 'events':
+                if (!report.eventLogPath) {
+                    continue;
+                }
+                await fs.promises.copyFile(report.eventLogPath, target);
+                break;
+        }
+        written.push(target);
+    }
+
+    return written;
+}
+
+/** Resolves goTestRunner.reportDirectory, relative paths against the first workspace folder. */
+export function getReportDirectory(): string | undefined {
+    const config = vscode.workspace.getConfiguration('goTestRunner');
+    const directory = config.get<string>('reportDirectory') || '.go-test-reports';
+    if (path.isAbsolute(directory)) {
+        return directory;
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, directory) : undefined;
+}
+
+export function toJUnitXml(report: TestRunReport): string {
+    const byPackage = groupByPackage(report.tests);
+    const packageElapsed = new Map(report.packages.map(p => [p.pkg, p.elapsed]));
+    const timestamp = new Date(report.startTime).toISOString();
+    const totals = countStatuses(report.tests);
+    const totalTime = (report.endTime - report.startTime) / 1000;
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(report.profile)}" tests="${report.tests.length}" failures="${totals.fail}" skipped="${totals.skip}" time="${totalTime.toFixed(3)}">`
+    ];
+
+    for (const [pkg, tests] of byPackage) {
+        const counts = countStatuses(tests);
+        const time = packageElapsed.get(pkg) ?? tests.reduce((sum, t) => sum + (t.elapsed ?? 0), 0);
+        lines.push(`  <testsuite name="${escapeXml(pkg)}" tests="${tests.length}" failures="${counts.fail}" skipped="${counts.skip}" time="${time.toFixed(3)}" timestamp="${timestamp}">`);
+
+        for (const test of tests) {
+            const attributes = `classname="${escapeXml(pkg)}" name="${escapeXml(test.name)}" time="${(test.elapsed ?? 0).toFixed(3)}"`;
+            if (test.status === 'fail') {
+                lines.push(`    <testcase ${attributes}>`);
+                lines.push(`      <failure message="Failed">${escapeXml(test.failureOutput ?? '')}</failure>`);
+                lines.push('    </testcase>');
+            } else if (test.status === 'skip') {
+                lines.push(`    <testcase ${attributes}>`);
+                lines.push(`      <skipped message="${escapeXml(test.skipReason ?? '')}"/>`);
+                lines.push('    </testcase>');
+            } else {
+                lines.push(`    <testcase ${attributes}/>`);
+            }
+        }
+
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+}
+
+export function toSummaryJson(report: TestRunReport): string {
+    const totals = countStatuses(report.tests);
+    return JSON.stringify({
+        profile: report.profile,
+        startTime: new Date(report.startTime).toISOString(),
+        endTime: new Date(report.endTime).toISOString(),
+        totals: { tests: report.tests.length, ...totals },
+        packages: report.packages,
+        tests: report.tests.map(test => ({
+            package: test.pkg,
+            name: test.name,
+            status: test.status,
+            elapsed: test.elapsed,
+            ...(test.failureOutput ? { output: test.failureOutput } : {}),
+            ...(test.skipReason ? { skipReason: test.skipReason } : {})
+        }))
+    }, null, 2) + '\n';
+}
+
+function groupByPackage(tests: ReportTestResult[]): Map<string, ReportTestResult[]> {
+    const byPackage = new Map<string, ReportTestResult[]>();
+    for (const test of tests) {
+        if (!byPackage.has(test.pkg)) {
+            byPackage.set(test.pkg, []);
+        }
+        byPackage.get(test.pkg)!.push(test);
+    }
+    return byPackage;
+}
+
+function countStatuses(tests: ReportTestResult[]): { pass: number; fail: number; skip: number } {
+    const counts = { pass: 0, fail: 0, skip: 0 };
+    for (const test of tests) {
+        counts[test.status]++;
+    }
+    return counts;
+}
+
+function escapeXml(value: string): string {
+    return value
+        // Control characters are not allowed in XML 1.0
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestRunner } from './testRunner';
+import { TestDiscovery } from '../discovery/testDiscovery';
+import { PackageGraph } from '../discovery/packageGraph';
+import { getChangedFiles } from '../discovery/gitChanges';
+import { findModuleForPath } from '../discovery/moduleDiscovery';
+
+// Changes to these files can affect every package of the module
+const MODULE_FILES = new Set(['go.mod', 'go.sum', 'go.work', 'go.work.sum']);
+
+/**
+ * Runs the tests of the packages touched by the git changes against
+ * goTestRunner.affectedBaseRef, and of every package depending on them,
+ * as one batched run. Returns false when no tests were affected.
+ */
+export async function runAffectedTests(
+    testRunner: TestRunner,
+    testDiscovery: TestDiscovery,
+    packageGraph: PackageGraph
+): Promise<boolean> {
+    const baseRef = vscode.workspace.getConfiguration('goTestRunner').get<string>('affectedBaseRef', 'HEAD') || 'HEAD';
+    const modules = testDiscovery.getModules();
+
+    const selection = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: `Finding tests affected by changes since ${baseRef}` },
+        async () => {
+            const files = new Set<string>();
+            const errors: string[] = [];
+            for (const module of modules) {
+                try {
+                    (await getChangedFiles(module.root, baseRef)).forEach(file => files.add(file));
+                } catch (error) {
+                    errors.push(`${module.root}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+            if (files.size === 0 && errors.length > 0) {
+                throw new Error(errors[0]);
+            }
+
+            // Reasons a package counts as changed, by import path
+            const changed = new Map<string, string[]>();
+            const addChange = (pkg: string, reason: string) => {
+                if (!changed.has(pkg)) {
+                    changed.set(pkg, []);
+                }
+                changed.get(pkg)!.push(reason);
+            };
+
+            for (const file of files) {
+                const module = findModuleForPath(modules, file);
+                if (!module) {
+                    continue;
+                }
+                const name = path.basename(file);
+                if (MODULE_FILES.has(name)) {
+                    for (const pkg of (await packageGraph.getPackages(module.root)).keys()) {
+                        addChange(pkg, `${name} changed`);
+                    }
+                    continue;
+                }
+                // Non-Go files count for the package whose directory holds them (testdata, embedded files)
+                const pkg = await packageGraph.getPackageForFile(module.root, file);
+                if (pkg) {
+                    addChange(pkg.ImportPath, `changed ${path.relative(pkg.Dir, file)}`);
+                }
+            }
+
+            const affected = await packageGraph.getAffectedPackages(modules.map(m => m.root), new Set(changed.keys()));
+            for (const [pkg, reasons] of changed) {
+                affected.set(pkg, reasons.slice(0, 3).join(', ') + (reasons.length > 3 ? `, +${reasons.length - 3} more` : ''));
+            }
+            return { files, affected };
+        }
+    );
+
+    const items: vscode.TestItem[] = [];
+    const notes = [`[Affected tests] ${selection.files.size} file(s) changed since ${baseRef}`];
+    for (const [pkg, reason] of Array.from(selection.affected).sort(([a], [b]) => a.localeCompare(b))) {
+        const item = testDiscovery.getPackageItem(pkg);
+        if (item) {
+            items.push(item);
+            notes.push(`  ${pkg} (${reason})`);
+        }
+    }
+    if (items.length === 0) {
+        return false;
+    }
+    notes.push(`Running ${items.length} package(s)`, '');
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+        await testRunner.runTests(new vscode.TestRunRequest(items), tokenSource.token, { notes });
+    } finally {
+        tokenSource.dispose();
+    }
+    return true;
+}
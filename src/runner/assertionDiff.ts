@@ -0,0 +1,179 @@
+export interface AssertionDiff {
+    expected: string;
+    actual: string;
+}
+
+/**
+ * Recognises one assertion style in a failed test's output. Parsers are
+ * tried in order; the first one returning a diff wins.
+ */
+export interface AssertionDiffParser {
+    name: string;
+    parse(output: string): AssertionDiff | undefined;
+}
+
+// "    foo_test.go:12: message" - the prefix t.Errorf puts on the first line
+const LOG_PREFIX = /^\s*[^\s:]+\.go:\d+: ?/;
+
+/**
+ * testify's assert.Equal and friends:
+ *     Error:      	Not equal:
+ *                 	expected: 5
+ *                 	actual  : 6
+ */
+export const testifyParser: AssertionDiffParser = {
+    name: 'testify',
+    parse(output) {
+        let expected: string[] | undefined;
+        let actual: string[] | undefined;
+        let current: string[] | undefined;
+
+        for (const line of output.split('\n')) {
+            // testify prints a two-column table: "\tLabel:\tcontent"
+            const row = line.match(/^\s*\t([^\t]*)\t(.*)$/);
+            if (!row) {
+                current = undefined;
+                continue;
+            }
+            const [, label, content] = row;
+            const value = content.match(/^(expected|actual)\s*: ?(.*)$/);
+            if (label.trim() && label.trim() !== 'Error:') {
+                // Another section (Test:, Messages:) ends the values
+                current = undefined;
+            } else if (value) {
+                current = [value[2]];
+                if (value[1] === 'expected') {
+                    expected = current;
+                } else {
+                    actual = current;
+                }
+            } else if (content.startsWith('Diff:') || (!content.trim() && current === actual)) {
+                current = undefined;
+            } else if (current) {
+                current.push(content);
+            }
+
+            // Only the first failed assertion is shown
+            if (expected && actual && !current) {
+                break;
+            }
+        }
+
+        if (!expected || !actual) {
+            return undefined;
+        }
+        return { expected: expected.join('\n').trimEnd(), actual: actual.join('\n').trimEnd() };
+    }
+};
+
+/**
+ * go-cmp's cmp.Diff reported under a "(-want +got)" style header, with
+ * lines prefixed by "-", "+" or " ".
+ */
+export const goCmpParser: AssertionDiffParser = {
+    name: 'go-cmp',
+    parse(output) {
+        const lines = output.split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            const header = lines[i].match(/\(-(want|expected|got|actual) \+(want|expected|got|actual)\)/);
+            if (!header) {
+                continue;
+            }
+            const minusIsExpected = header[1] === 'want' || header[1] === 'expected';
+
+            // The diff is every following line indented deeper than the header
+            const headerIndent = lines[i].match(/^\s*/)![0].length;
+            const block: string[] = [];
+            for (let j = i + 1; j < lines.length; j++) {
+                const indent = lines[j].match(/^\s*/)![0].length;
+                if (!lines[j].trim() || indent <= headerIndent) {
+                    break;
+                }
+                block.push(lines[j]);
+            }
+            if (block.length === 0) {
+                continue;
+            }
+
+            const commonIndent = Math.min(...block.map(line => line.match(/^ */)![0].length));
+            const minus: string[] = [];
+            const plus: string[] = [];
+            for (const line of block.map(l => l.substring(commonIndent))) {
+                const content = line.substring(2);
+                if (line.startsWith('-')) {
+                    minus.push(content);
+                } else if (line.startsWith('+')) {
+                    plus.push(content);
+                } else {
+                    minus.push(content);
+                    plus.push(content);
+                }
+            }
+
+            return minusIsExpected
+                ? { expected: minus.join('\n'), actual: plus.join('\n') }
+                : { expected: plus.join('\n'), actual: minus.join('\n') };
+        }
+        return undefined;
+    }
+};
+
+/**
+ * Hand-written comparisons: "got X, want Y", "want X; got Y",
+ * "expected X, got Y", or "got:" and "want:" on consecutive lines.
+ */
+export const gotWantParser: AssertionDiffParser = {
+    name: 'got/want',
+    parse(output) {
+        const lines = output.split('\n').map(line => line.replace(LOG_PREFIX, '').trim());
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            let match = line.match(/\bgot:?\s+(.+?)[,;]\s*(?:want|wanted|expected):?\s+(.+)$/i);
+            if (match) {
+                return { expected: match[2], actual: match[1] };
+            }
+            match = line.match(/\b(?:want|wanted|expected):?\s+(.+?)[,;]\s*(?:got|actual):?\s+(.+)$/i);
+            if (match) {
+                return { expected: match[1], actual: match[2] };
+            }
+
+            const got = line.match(/^got:\s*(.+)$/i);
+            const want = lines[i + 1]?.match(/^want:\s*(.+)$/i);
+            if (got && want) {
+                return { expected: want[1], actual: got[1] };
+            }
+        }
+        return undefined;
+    }
+};
+
+const parsers: AssertionDiffParser[] = [testifyParser, goCmpParser, gotWantParser];
+
+/**
+ * Adds a parser for another assertion library. Registered parsers are tried
+ * before the built-in ones. Returns a function that removes it again.
+ */
+export function registerAssertionDiffParser(parser: AssertionDiffParser): () => void {
+    parsers.unshift(parser);
+    return () => {
+        const index = parsers.indexOf(parser);
+        if (index >= 0) {
+            parsers.splice(index, 1);
+        }
+    };
+}
+
+export function parseAssertionDiff(output: string): AssertionDiff | undefined {
+    for (const parser of parsers) {
+        try {
+            const diff = parser.parse(output);
+            if (diff) {
+                return diff;
+            }
+        } catch (error) {
+            console.error(`Error in ${parser.name} diff parser:`, error);
+        }
+    }
+    return undefined;
+}
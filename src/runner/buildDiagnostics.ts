@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+interface BuildOutput {
+    lines: string[];
+    diagnostics: Map<string, vscode.Diagnostic[]>; // file path -> diagnostics
+}
+
+export interface BuildFailure {
+    output: string;
+    location?: vscode.Location;
+}
+
+/**
+ * Collects compile and vet errors reported by go test and publishes them as
+ * editor diagnostics. Errors arrive on stderr after a "# pkg" header, or
+ * (Go 1.24+) as build-output events carrying the ImportPath.
+ */
+export class BuildDiagnostics {
+    private collection: vscode.DiagnosticCollection;
+    // Build output per package that produced it
+    private outputs: Map<string, BuildOutput> = new Map();
+    // Failed test package -> package whose build output explains the failure
+    private failures: Map<string, string> = new Map();
+    private seenThisRun: Set<string> = new Set();
+    private static readonly MAX_LINES_PER_PACKAGE = 200;
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('go-test-runner');
+    }
+
+    /** Strips " [pkg.test]" variants and the external _test package suffix. */
+    static normalizePackage(importPath: string): string {
+        return importPath.replace(/\s+\[.*\]$/, '').replace(/_test$/, '');
+    }
+
+    /**
+     * Returns the line handler for the build output of one go test process;
+     * importPath is known for build-output events. Each process follows its
+     * own "# pkg" headers, as parallel processes of a module share their cwd.
+     */
+    createParser(cwd: string): (line: string, importPath?: string) => void {
+        let currentPackage: string | undefined;
+        return (line, importPath) => {
+            const text = line.replace(/\r?\n$/, '');
+            const header = text.match(/^# (\S+)(?: \[.*\])?$/);
+            if (header) {
+                currentPackage = BuildDiagnostics.normalizePackage(header[1]);
+                this.getOutput(currentPackage);
+                return;
+            }
+
+            const pkg = importPath ? BuildDiagnostics.normalizePackage(importPath) : currentPackage;
+            if (pkg && text.trim()) {
+                this.appendLine(pkg, cwd, text);
+            }
+        };
+    }
+
+    private appendLine(pkg: string, cwd: string, text: string): void {
+        const output = this.getOutput(pkg);
+        if (output.lines.length < BuildDiagnostics.MAX_LINES_PER_PACKAGE) {
+            output.lines.push(text);
+        }
+
+        // file.go:line[:col]: message, with paths relative to the go command's directory
+        const match = text.match(/^(?:vet: )?(\S.*?\.go):(\d+)(?::(\d+))?: (.*)$/);
+        if (match) {
+            const [, file, lineNum, col, message] = match;
+            const fsPath = path.isAbsolute(file) ? file : path.resolve(cwd, file);
+            const position = new vscode.Position(parseInt(lineNum, 10) - 1, col ? parseInt(col, 10) - 1 : 0);
+            const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position), message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = 'go test';
+            if (!output.diagnostics.has(fsPath)) {
+                output.diagnostics.set(fsPath, []);
+            }
+            output.diagnostics.get(fsPath)!.push(diagnostic);
+        }
+    }
+
+    /**
+     * Records that a test package failed to build. failedBuild names the package
+     * whose build actually failed when it differs (e.g. a broken dependency).
+     */
+    markFailed(pkg: string, failedBuild?: string): void {
+        const normalized = BuildDiagnostics.normalizePackage(pkg);
+        const source = failedBuild ? BuildDiagnostics.normalizePackage(failedBuild) : normalized;
+        this.failures.set(normalized, this.outputs.has(source) ? source : normalized);
+        this.publish();
+    }
+
+    hasFailed(pkg: string): boolean {
+        return this.failures.has(pkg);
+    }
+
+    /** Returns the build output of a failed package and the location of its first error. */
+    getFailure(pkg: string): BuildFailure | undefined {
+        const source = this.failures.get(pkg);
+        if (source === undefined) {
+            return undefined;
+        }
+
+        const output = this.outputs.get(source);
+        let location: vscode.Location | undefined;
+        for (const [file, diagnostics] of output?.diagnostics ?? []) {
+            if (diagnostics.length > 0) {
+                location = new vscode.Location(vscode.Uri.file(file), diagnostics[0].range);
+                break;
+            }
+        }
+        return { output: output?.lines.join('\n') ?? '', location };
+    }
+
+    /**
+     * Clears the diagnostics a package emitted once it builds successfully,
+     * including those shown for packages whose build failed because of it.
+     */
+    clearPackage(pkg: string): void {
+        let changed = this.outputs.delete(pkg);
+        for (const [failed, source] of this.failures) {
+            if (failed === pkg || source === pkg) {
+                this.failures.delete(failed);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.publish();
+        }
+    }
+
+    /** Starts collecting fresh output, keeping diagnostics until packages build again. */
+    startRun(): void {
+        this.seenThisRun.clear();
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+
+    private getOutput(pkg: string): BuildOutput {
+        let output = this.outputs.get(pkg);
+        // Output left over from an earlier run is replaced, not appended to
+        if (!output || !this.seenThisRun.has(pkg)) {
+            output = { lines: [], diagnostics: new Map() };
+            this.outputs.set(pkg, output);
+            this.seenThisRun.add(pkg);
+        }
+        return output;
+    }
+
+    private publish(): void {
+        const sources = new Set(this.failures.values());
+        // Drop output no remaining failure refers to
+        for (const pkg of this.outputs.keys()) {
+            if (!sources.has(pkg) && !this.seenThisRun.has(pkg)) {
+                this.outputs.delete(pkg);
+            }
+        }
+
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const source of sources) {
+            for (const [file, diagnostics] of this.outputs.get(source)?.diagnostics ?? []) {
+                byFile.set(file, [...(byFile.get(file) ?? []), ...diagnostics]);
+            }
+        }
+
+        this.collection.clear();
+        for (const [file, diagnostics] of byFile) {
+            this.collection.set(vscode.Uri.file(file), diagnostics);
+        }
+    }
+}
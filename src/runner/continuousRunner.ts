@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestRunner } from './testRunner';
+import { TestDiscovery } from '../discovery/testDiscovery';
+import { PackageGraph } from '../discovery/packageGraph';
+import { findModuleForPath, isIgnoredByGo } from '../discovery/moduleDiscovery';
+import { getTestItemData } from '../models/testItemData';
+
+interface ActiveRun {
+    tokenSource: vscode.CancellationTokenSource;
+    done: Promise<void>;
+}
+
+/**
+ * Continuous ("watch") mode for the Run profile: reruns the watched tests of
+ * packages affected by saved .go files, including packages that import a
+ * changed package. Files go ignores, such as vendored code and testdata,
+ * do not trigger runs. Rapid saves are debounced and a newer change cancels
+ * the run started for an older one.
+ */
+export class ContinuousRunner {
+    private static readonly DEBOUNCE = 500;
+
+    constructor(
+        private testRunner: TestRunner,
+        private testDiscovery: TestDiscovery,
+        private packageGraph: PackageGraph
+    ) {}
+
+    /** Watches until the token is cancelled, i.e. until the user stops continuous mode. */
+    async watch(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.go');
+        const changedFiles = new Set<string>();
+        let timer: NodeJS.Timeout | undefined;
+        let activeRun: ActiveRun | undefined;
+        // Triggers are handled one at a time, so runs never overlap
+        let queue: Promise<void> = Promise.resolve();
+
+        const onChange = (uri: vscode.Uri) => {
+            const module = findModuleForPath(this.testDiscovery.getModules(), uri.fsPath);
+            if (!module || isIgnoredByGo(path.relative(module.root, path.dirname(uri.fsPath)))) {
+                return;
+            }
+            changedFiles.add(uri.fsPath);
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(() => {
+                timer = undefined;
+                const files = Array.from(changedFiles);
+                changedFiles.clear();
+                // A newer change makes the running one stale
+                activeRun?.tokenSource.cancel();
+                queue = queue.then(async () => {
+                    await activeRun?.done;
+                    if (!token.isCancellationRequested) {
+                        activeRun = this.startRun(request, files);
+                        await activeRun.done;
+                    }
+                });
+            }, ContinuousRunner.DEBOUNCE);
+        };
+
+        const subscriptions = [
+            watcher,
+            watcher.onDidChange(onChange),
+            watcher.onDidCreate(onChange),
+            watcher.onDidDelete(onChange)
+        ];
+
+        await new Promise<void>(resolve => {
+            if (token.isCancellationRequested) {
+                resolve();
+                return;
+            }
+            subscriptions.push(token.onCancellationRequested(() => resolve()));
+        });
+
+        if (timer) {
+            clearTimeout(timer);
+        }
+        activeRun?.tokenSource.cancel();
+        subscriptions.forEach(s => s.dispose());
+        await queue;
+    }
+
+    private startRun(request: vscode.TestRunRequest, files: string[]): ActiveRun {
+        const tokenSource = new vscode.CancellationTokenSource();
+        const done = this.runAffected(request, files, tokenSource.token)
+            .catch(error => console.error('Error in continuous run:', error))
+            .finally(() => tokenSource.dispose());
+        return { tokenSource, done };
+    }
+
+    private async runAffected(request: vscode.TestRunRequest, files: string[], token: vscode.CancellationToken): Promise<void> {
+        const modules = this.testDiscovery.getModules();
+        const changedPackages = new Set<string>();
+
+        // The graph reloads a module itself when a saved file changed its package or imports
+        for (const file of files) {
+            const module = findModuleForPath(modules, file);
+            const pkg = module && await this.packageGraph.getPackageForDir(module.root, path.dirname(file));
+            if (pkg) {
+                changedPackages.add(pkg.ImportPath);
+            }
+        }
+        if (changedPackages.size === 0 || token.isCancellationRequested) {
+            return;
+        }
+
+        const affected = await this.packageGraph.getAffectedPackages(modules.map(m => m.root), changedPackages);
+        const include = this.getWatchedItems(request, affected);
+        if (include.length === 0 || token.isCancellationRequested) {
+            return;
+        }
+
+        const notes = [
+            `[Continuous run] ${files.length} changed file(s), rerunning ${include.length} item(s):`,
+            ...Array.from(affected)
+                .filter(([pkg]) => this.testDiscovery.getPackageItem(pkg))
+                .map(([pkg, reason]) => `  ${pkg} (${reason})`),
+            ''
+        ];
+        await this.testRunner.runTests(new vscode.TestRunRequest(include, request.exclude, request.profile), token, { notes });
+    }
+
+    /** The watched items (everything when nothing was selected) inside the affected packages. */
+    private getWatchedItems(request: vscode.TestRunRequest, affected: Map<string, string>): vscode.TestItem[] {
+        if (!request.include) {
+            return Array.from(affected.keys())
+                .map(pkg => this.testDiscovery.getPackageItem(pkg))
+                .filter((item): item is vscode.TestItem => !!item);
+        }
+
+        const items: vscode.TestItem[] = [];
+        for (const item of request.include) {
+            const data = getTestItemData(item);
+            if (data?.kind === 'module') {
+                item.children.forEach(child => {
+                    const childData = getTestItemData(child);
+                    if (childData && affected.has(childData.pkg)) {
+                        items.push(child);
+                    }
+                });
+            } else if (data && affected.has(data.pkg)) {
+                items.push(item);
+            }
+        }
+        return items;
+    }
+}
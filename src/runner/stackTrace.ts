@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { GoModule, findModuleForImportPath } from '../discovery/moduleDiscovery';
+
+export interface StackFrame {
+    file: string;
+    line: number;
+    column?: number;
+    // Function name for panic traces, otherwise the text of the line
+    label: string;
+}
+
+// Panic trace: "pkg.Func(args)" followed by "\t/path/file.go:12 +0x1d"
+const TRACE_LINE = /^\t(\S.*?\.go):(\d+)(?: \+0x[0-9a-f]+)?$/;
+// t.Errorf/t.Log output: "    foo_test.go:12: message"
+const LOG_LINE = /^\s+([^\s:]+\.go):(\d+): (.*)$/;
+// Anything else mentioning file.go:line, e.g. testify's "Error Trace:" block
+const ANY_LOCATION = /(?:^|\s)((?:[A-Za-z]:)?[^\s:]+\.go):(\d+)(?::(\d+))?/;
+
+/** Extracts Go stack frames from test output, innermost first. */
+export function parseStackTrace(output: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+    const lines = output.split('\n').map(line => line.replace(/\r$/, ''));
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        let frame: StackFrame | undefined;
+
+        const trace = line.match(TRACE_LINE);
+        const log = line.match(LOG_LINE);
+        if (trace) {
+            frame = { file: trace[1], line: parseInt(trace[2], 10), label: functionName(lines[i - 1]) || path.basename(trace[1]) };
+        } else if (log) {
+            frame = { file: log[1], line: parseInt(log[2], 10), label: log[3].trim() || path.basename(log[1]) };
+        } else {
+            const any = line.match(ANY_LOCATION);
+            if (any) {
+                frame = {
+                    file: any[1],
+                    line: parseInt(any[2], 10),
+                    column: any[3] ? parseInt(any[3], 10) : undefined,
+                    label: line.trim()
+                };
+            }
+        }
+
+        const previous = frames[frames.length - 1];
+        if (frame && !(previous && previous.file === frame.file && previous.line === frame.line)) {
+            frames.push(frame);
+        }
+    }
+
+    return frames;
+}
+
+function functionName(line: string | undefined): string | undefined {
+    if (!line || /^\s/.test(line)) {
+        return undefined;
+    }
+    // "testing.(*T).Run(0x1400, {0x1, 0x2})" or "created by testing.(*T).Run in goroutine 1"
+    return line
+        .replace(/^created by /, '')
+        .replace(/ in goroutine \d+$/, '')
+        .replace(/\([^()]*\)$/, '');
+}
+
+/**
+ * Maps file names from go test output to absolute paths. Go prints paths
+ * relative to the package directory (t.Log), absolute (panics), relative to
+ * the module path (-trimpath) or inside the module cache.
+ */
+export class StackFrameResolver {
+    private moduleCache: string;
+
+    constructor(private modules: GoModule[]) {
+        const gopath = process.env.GOPATH?.split(path.delimiter)[0] || path.join(os.homedir(), 'go');
+        this.moduleCache = process.env.GOMODCACHE || path.join(gopath, 'pkg', 'mod');
+    }
+
+    resolve(file: string, packageDir?: string, moduleRoot?: string): string | undefined {
+        if (path.isAbsolute(file)) {
+            return file;
+        }
+
+        // Versioned paths only appear for dependencies in the module cache
+        if (/@v[^/]+\//.test(file)) {
+            return path.join(this.moduleCache, file);
+        }
+
+        const candidates = [packageDir, moduleRoot]
+            .filter((dir): dir is string => !!dir)
+            .map(dir => path.join(dir, file));
+        const module = findModuleForImportPath(this.modules, file);
+        if (module?.modulePath) {
+            candidates.push(path.join(module.root, file.substring(module.modulePath.length + 1)));
+        }
+
+        return candidates.find(candidate => fs.existsSync(candidate)) ?? candidates[0];
+    }
+
+    /** True for files in the workspace, excluding the module cache and GOROOT. */
+    isWorkspaceFile(fsPath: string): boolean {
+        if (fsPath.startsWith(this.moduleCache + path.sep)) {
+            return false;
+        }
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath)) !== undefined;
+    }
+}
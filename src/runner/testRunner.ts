@@ -1,8 +1,18 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { spawn, execSync } from 'child_process';
 import { ProfileManager } from '../config/profileManager';
-import { OutputFilter } from '../ui/outputFilter';
+import { OutputFilter, FilterMode } from '../ui/outputFilter';
+import { TestOutputLog } from '../ui/testOutputLog';
+import { TestHistory } from '../history/testHistory';
+import { EventLogWriter, TestRunReport, ReportPackageResult, ReportTestResult, writeReports, getReportDirectory } from '../report/testReport';
+import { TestProfile, EffectiveTestConfig } from '../models/testProfile';
 import { TestDiscovery } from '../discovery/testDiscovery';
+import { CoverageCollector } from '../coverage/coverageCollector';
+import { BuildDiagnostics } from './buildDiagnostics';
+import { parseStackTrace, StackFrameResolver } from './stackTrace';
+import { parseAssertionDiff } from './assertionDiff';
+import { getTestItemData, setTestItemData, buildSelectionArgs, buildBenchmarkArgs, buildSkipPattern, isBenchmarkName, FLAKY_TAG } from '../models/testItemData';
 
 interface TestEvent {
     Time?: string;
@@ -11,6 +21,17 @@ interface TestEvent {
     Test?: string;
     Output?: string;
     Elapsed?: number;
+    // Go 1.24+: build events carry the ImportPath, failed packages name the FailedBuild
+    ImportPath?: string;
+    FailedBuild?: string;
+}
+
+export interface RunOptions {
+    coverage?: boolean;
+    // Run with this profile instead of the active one
+    profile?: TestProfile;
+    // Written to the output channel before the run, e.g. why tests were selected
+    notes?: string[];
 }
 
 interface TestResult {
@@ -25,12 +46,32 @@ interface UIOutputBuffer {
     testItem: vscode.TestItem;
     lines: string[];
     byteSize: number;
+    // Held back until the test's status is known, so the output filter can apply
+    held: boolean;
+}
+
+interface TestBatch {
+    pkg: string;
+    cwd: string;
+    pkgItem: vscode.TestItem;
+    // Selected tests; ignored when the whole package runs
+    tests: vscode.TestItem[];
+    whole: boolean;
+    // Names of excluded tests, passed to -skip
+    excluded: string[];
 }
 
-interface StackFrame {
-    file: string;
-    line: number;
-    text: string;
+// Per-process state of one go test invocation
+interface GoTestProcess {
+    cwd: string;
+    // Build output parser following this process's own "# pkg" headers
+    appendBuildOutput: (line: string, importPath?: string) => void;
+    // Test package -> package whose build failed, reported once the process exits
+    buildFailures: Map<string, string | undefined>;
+    // Tests that started but have no pass/fail/skip event yet, per package
+    inFlight: Map<string, Map<string, vscode.TestItem>>;
+    // Package-level output, which is where panics and TestMain failures end up
+    packageOutput: Map<string, string[]>;
 }
 
 export class TestRunner {
@@ -49,12 +90,27 @@ export class TestRunner {
     private uiOutputBuffers: Map<string, UIOutputBuffer>;
     private uiFlushTimer?: NodeJS.Timeout;
     private currentRun?: vscode.TestRun;
+    private coverageCollector?: CoverageCollector;
+    private buildDiagnostics: BuildDiagnostics;
+    // Errors of packages whose tests could not run (build, TestMain or init failures)
+    private packageErrors: Map<string, vscode.TestMessage>;
+    private outputLog: TestOutputLog;
+    private eventLog?: EventLogWriter;
+    private packageResults: Map<string, ReportPackageResult>;
+    private runStartTime = 0;
+    private lastReport?: TestRunReport;
+    private filterSubscription?: vscode.Disposable;
+    private runQueue: Promise<unknown> = Promise.resolve();
+    // Items of the current run whose tests run with all their subtests, and excluded items
+    private completeRunIds: Set<string> = new Set();
+    private excludedIds: Set<string> = new Set();
 
     constructor(
         private controller: vscode.TestController,
         private profileManager: ProfileManager,
         private testDiscovery: TestDiscovery,
-        outputFilter?: OutputFilter
+        outputFilter?: OutputFilter,
+        private testHistory?: TestHistory
     ) {
         this.outputChannel = vscode.window.createOutputChannel('Go Test Runner');
         this.testResults = new Map();
@@ -64,15 +120,38 @@ export class TestRunner {
         this.outputBuffer = [];
         this.outputBufferSize = 0;
         this.uiOutputBuffers = new Map();
+        this.outputLog = new TestOutputLog(TestRunner.MAX_UI_OUTPUT_LINES);
+        this.packageResults = new Map();
+        this.buildDiagnostics = new BuildDiagnostics();
+        this.packageErrors = new Map();
+        
+        // Re-render the last run's output when the filter changes, without re-running tests
+        this.filterSubscription = outputFilter?.onDidChangeFilter(() => this.renderFilteredOutput());
     }
 
     async runTests(
         request: vscode.TestRunRequest,
-        token: vscode.CancellationToken
-    ): Promise<void> {
-        const run = this.controller.createTestRun(request);
+        token: vscode.CancellationToken,
+        options: RunOptions = {}
+    ): Promise<TestRunReport | undefined> {
+        // A run cancelled while waiting for the previous one is dropped
+        return this.enqueueRun(async () => token.isCancellationRequested
+            ? undefined
+            : this.executeRun(request, token, options));
+    }
+
+    private async executeRun(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        options: RunOptions
+    ): Promise<TestRunReport> {
+        // Runs with another than the active profile are named after it in Test Results
+        const run = this.controller.createTestRun(request, options.profile?.name);
         this.currentRun = run;
-        const profile = this.profileManager.getActiveProfile();
+        const profile = options.profile ?? this.profileManager.getActiveProfile();
+        this.coverageCollector = options.coverage
+            ? new CoverageCollector(this.testDiscovery.getModules())
+            : undefined;
         
         this.testResults.clear();
         this.failedTestsOutput.clear();
@@ -80,30 +159,43 @@ export class TestRunner {
         this.outputBuffer = [];
         this.outputBufferSize = 0;
         this.uiOutputBuffers.clear();
+        this.outputLog.clear();
+        this.startEventLog();
+        this.buildDiagnostics.startRun();
+        this.packageErrors.clear();
         this.outputChannel.clear();
         this.outputChannel.show(true);
+        options.notes?.forEach(note => this.appendToOutputBuffer(note));
+        this.completeRunIds = new Set((request.include ?? Array.from(this.controller.items).map(([, item]) => item)).map(item => item.id));
+        this.excludedIds = new Set((request.exclude ?? []).map(item => item.id));
 
+        let report: TestRunReport;
         try {
-            if (request.include) {
-                for (const test of request.include) {
-                    if (token.isCancellationRequested) {
-                        break;
-                    }
-                    await this.runTest(test, run, profile, token);
-                }
+            if (request.include || request.exclude?.length) {
+                await this.runBatches(this.collectBatches(request, run), run, profile, token);
             } else {
                 await this.runAllTestsInternal(run, profile, token);
             }
+            await this.publishCoverage(run);
         } finally {
             this.flushAllUIBuffers();
             this.flushOutputBuffer();
             this.currentRun = undefined;
+            await this.coverageCollector?.dispose();
+            this.coverageCollector = undefined;
             run.end();
             this.collapsePassedPackages();
+            this.recordHistory(profile.name);
+            report = await this.finishReport(profile);
         }
+        return report;
     }
 
     async runAllTests(): Promise<void> {
+        return this.enqueueRun(() => this.executeRunAll());
+    }
+
+    private async executeRunAll(): Promise<void> {
         const run = this.controller.createTestRun(new vscode.TestRunRequest());
         this.currentRun = run;
         const profile = this.profileManager.getActiveProfile();
@@ -115,8 +207,14 @@ export class TestRunner {
         this.outputBuffer = [];
         this.outputBufferSize = 0;
         this.uiOutputBuffers.clear();
+        this.outputLog.clear();
+        this.startEventLog();
+        this.buildDiagnostics.startRun();
+        this.packageErrors.clear();
         this.outputChannel.clear();
         this.outputChannel.show(true);
+        this.completeRunIds = new Set(Array.from(this.controller.items).map(([id]) => id));
+        this.excludedIds = new Set();
 
         try {
             await this.runAllTestsInternal(run, profile, tokenSource.token);
@@ -126,32 +224,92 @@ export class TestRunner {
             this.currentRun = undefined;
             run.end();
             this.collapsePassedPackages();
+            this.recordHistory(profile.name);
+            await this.finishReport(profile);
             tokenSource.dispose();
         }
     }
 
+    /**
+     * Reruns the tests that failed in the last run as one batched run.
+     * Returns false when the last run had no failures.
+     */
+    async rerunFailedTests(): Promise<boolean> {
+        // Queued as a whole so the failures are read once the previous run has finished
+        return this.enqueueRun(async () => {
+            const failedItems = this.getLastFailedItems();
+            if (failedItems.length === 0) {
+                return false;
+            }
+
+            const tokenSource = new vscode.CancellationTokenSource();
+            try {
+                await this.executeRun(new vscode.TestRunRequest(failedItems), tokenSource.token, {});
+            } finally {
+                tokenSource.dispose();
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Runs share the output channel and the per-run state of this class, so
+     * they execute one at a time in the order they were started.
+     */
+    private enqueueRun<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.runQueue.then(task);
+        this.runQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private getLastFailedItems(): vscode.TestItem[] {
+        const failed: vscode.TestItem[] = [];
+        for (const [pkg, statuses] of this.packageTestStatus) {
+            for (const [testName, status] of statuses) {
+                if (status !== 'fail') {
+                    continue;
+                }
+                // A failed subtest also fails its parent; rerunning the subtest is enough
+                const hasFailedSubtest = Array.from(statuses).some(
+                    ([name, s]) => s === 'fail' && name.startsWith(testName + '/')
+                );
+                const item = hasFailedSubtest ? undefined : this.lookupTestItem(pkg, testName);
+                if (item) {
+                    failed.push(item);
+                }
+            }
+        }
+        return failed;
+    }
+
     private async runAllTestsInternal(
         run: vscode.TestRun,
-        profile: any,
+        profile: TestProfile,
         token: vscode.CancellationToken
     ): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        // Every module runs from its own root; fall back to the workspace folders before discovery
+        const modules = this.testDiscovery.getModules();
+        const roots = modules.length > 0
+            ? modules.map(m => m.root)
+            : (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath);
+        if (roots.length === 0) {
             return;
         }
 
         // Prepare tests: generate and clean cache
         this.appendToOutputBuffer('Preparing tests...');
         try {
-            this.appendToOutputBuffer('Running: go generate ./...');
-            execSync('go generate ./...', { 
-                cwd: workspaceFolder.uri.fsPath,
-                encoding: 'utf-8'
-            });
+            for (const root of roots) {
+                this.appendToOutputBuffer(`Running: go generate ./... (${root})`);
+                execSync('go generate ./...', { 
+                    cwd: root,
+                    encoding: 'utf-8'
+                });
+            }
             
             this.appendToOutputBuffer('Running: go clean -testcache');
             execSync('go clean -testcache', { 
-                cwd: workspaceFolder.uri.fsPath,
+                cwd: roots[0],
                 encoding: 'utf-8'
             });
             this.appendToOutputBuffer('Tests prepared successfully\n');
@@ -161,124 +319,257 @@ export class TestRunner {
             this.flushOutputBuffer();
         }
 
-        return new Promise((resolve, reject) => {
-            const args = ['test', '-json', ...profile.testFlags, './...'];
-            
-            const proc = spawn('go', args, {
-                cwd: workspaceFolder.uri.fsPath,
-                env: { ...process.env, ...profile.testEnvVars }
-            });
-
-            let buffer = '';
-            let cancelled = false;
+        for (const root of roots) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            if (roots.length > 1) {
+                this.appendToOutputBuffer(`\nTesting module at ${root}`);
+            }
+            await this.runModuleTests(root, run, profile, token);
+        }
+    }
 
-            const cleanup = () => {
-                if (!cancelled) {
-                    cancelled = true;
-                    this.killProcessTree(proc.pid!);
-                }
-            };
+    private async runModuleTests(
+        cwd: string,
+        run: vscode.TestRun,
+        profile: TestProfile,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        if (!this.profileManager.hasPackageRules(profile)) {
+            const config = this.profileManager.getEffectiveConfig(undefined, profile, cwd);
+            const args = ['test', '-json', ...this.getCoverageArgs(), ...config.testFlags, './...'];
+            await this.spawnGoTest(args, cwd, run, config, token);
+            return;
+        }
 
-            token.onCancellationRequested(() => {
-                this.appendToOutputBuffer('\n[Test run cancelled by user]');
-                this.flushOutputBuffer();
-                cleanup();
-                resolve();
-            });
+        // Package filters and overrides need explicit package lists, grouped by their flags
+        const groups = new Map<string, { config: EffectiveTestConfig; packages: string[] }>();
+        for (const pkgItem of this.testDiscovery.getPackageItems()) {
+            const data = getTestItemData(pkgItem);
+            if (!data || (data.moduleRoot ?? cwd) !== cwd) {
+                continue;
+            }
+            if (!this.profileManager.isPackageIncluded(data.pkg, profile)) {
+                this.appendToOutputBuffer(`Skipping ${data.pkg}: excluded by profile "${profile.name}"`);
+                continue;
+            }
+            const config = this.profileManager.getEffectiveConfig(data.pkg, profile, cwd);
+            const key = JSON.stringify(config);
+            if (!groups.has(key)) {
+                groups.set(key, { config, packages: [] });
+            }
+            groups.get(key)!.packages.push(data.pkg);
+        }
 
-            proc.stdout.on('data', (data) => {
-                buffer += data.toString();
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
+        for (const { config, packages } of groups.values()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            const args = ['test', '-json', ...this.getCoverageArgs(), ...config.testFlags, ...packages];
+            await this.spawnGoTest(args, cwd, run, config, token);
+        }
+    }
 
-                // Batch parse JSON events to reduce overhead
-                const events: TestEvent[] = [];
-                for (const line of lines) {
-                    if (line.trim()) {
-                        try {
-                            events.push(JSON.parse(line));
-                        } catch (e) {
-                            console.error('Error parsing JSON:', line);
-                        }
-                    }
+    /**
+     * Groups the requested items by package so each package is tested by a
+     * single go test invocation, honouring request.exclude via -skip.
+     */
+    private collectBatches(request: vscode.TestRunRequest, run: vscode.TestRun): TestBatch[] {
+        const batches = new Map<string, TestBatch>();
+        const excludedIds = new Set((request.exclude ?? []).map(item => item.id));
+        const isExcluded = (item: vscode.TestItem) => {
+            for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+                if (excludedIds.has(current.id)) {
+                    return true;
                 }
-                
-                // Process all events in batch
-                for (const event of events) {
-                    this.handleTestEvent(event, run);
+            }
+            return false;
+        };
+
+        const getBatch = (pkgItem: vscode.TestItem, pkg: string, moduleRoot?: string) => {
+            let batch = batches.get(pkg);
+            if (!batch) {
+                const cwd = moduleRoot ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+                if (!cwd) {
+                    return undefined;
                 }
-            });
+                batch = { pkg, cwd, pkgItem, tests: [], whole: false, excluded: [] };
+                batches.set(pkg, batch);
+            }
+            return batch;
+        };
 
-            proc.stderr.on('data', (data) => {
-                this.appendToOutputBuffer(data.toString());
-            });
+        const add = (item: vscode.TestItem) => {
+            const data = getTestItemData(item);
+            if (!data || isExcluded(item)) {
+                return;
+            }
 
-            proc.on('close', (code) => {
-                if (!cancelled) {
-                    this.flushOutputBuffer();
-                    resolve();
+            if (data.kind === 'module') {
+                for (const [, child] of item.children) {
+                    add(child);
                 }
-            });
+                return;
+            }
 
-            proc.on('error', (err) => {
-                if (!cancelled) {
-                    reject(err);
-                }
-            });
-        });
+            let pkgItem: vscode.TestItem | undefined = item;
+            while (pkgItem && getTestItemData(pkgItem)?.kind !== 'package') {
+                pkgItem = pkgItem.parent;
+            }
+            const batch = pkgItem && getBatch(pkgItem, data.pkg, data.moduleRoot);
+            if (!batch) {
+                return;
+            }
+
+            if (data.kind === 'package') {
+                batch.whole = true;
+            } else if (data.kind === 'example' && !data.hasOutput) {
+                // go test compiles examples without an output comment but never runs them
+                run.appendOutput(`${data.testName} has no "// Output:" comment, so go test does not run it\r\n`, undefined, item);
+                run.skipped(item);
+            } else if (!batch.tests.includes(item)) {
+                batch.tests.push(item);
+            }
+        };
+
+        // Without an include list every package runs, minus the excluded ones
+        const roots = request.include ?? Array.from(this.controller.items).map(([, item]) => item);
+        roots.forEach(add);
+
+        for (const item of request.exclude ?? []) {
+            const data = getTestItemData(item);
+            const batch = data?.testName ? batches.get(data.pkg) : undefined;
+            if (batch && data?.testName) {
+                batch.excluded.push(data.testName);
+            }
+        }
+
+        return Array.from(batches.values()).filter(batch => batch.whole || batch.tests.length > 0);
     }
 
-    private async runTest(
-        test: vscode.TestItem,
+    private async runBatches(
+        batches: TestBatch[],
         run: vscode.TestRun,
-        profile: any,
+        profile: TestProfile,
         token: vscode.CancellationToken
     ): Promise<void> {
-        run.started(test);
-        
-        const testId = test.id;
-        
-        // Check if this is a package item (has children) or a test item (no children)
-        if (test.children.size > 0) {
-            // This is a package item - run all tests in package
-            await this.runPackageTests(testId, test, run, profile, token);
-        } else {
-            // This is a test item - extract package and test name
-            // Test ID format: "pkg/path/TestName" where last part is the test name
-            const lastSlashIndex = testId.lastIndexOf('/');
-            if (lastSlashIndex === -1) {
-                return;
+        const config = vscode.workspace.getConfiguration('goTestRunner');
+        const concurrency = Math.max(1, config.get<number>('maxParallelPackages', 4));
+        const queue = [...batches];
+
+        const processNext = async () => {
+            while (queue.length > 0 && !token.isCancellationRequested) {
+                const batch = queue.shift();
+                if (!batch) break;
+                await this.runBatch(batch, run, profile, token);
             }
-            
-            const pkg = testId.substring(0, lastSlashIndex);
-            const testName = testId.substring(lastSlashIndex + 1);
-            await this.runSpecificTest(pkg, testName, test, run, profile, token);
+        };
+
+        // Start concurrent workers
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < concurrency && i < batches.length; i++) {
+            workers.push(processNext());
         }
+        await Promise.all(workers);
     }
 
-    private async runSpecificTest(
-        pkg: string,
-        testName: string,
-        test: vscode.TestItem,
+    private async runBatch(
+        batch: TestBatch,
         run: vscode.TestRun,
-        profile: any,
+        profile: TestProfile,
         token: vscode.CancellationToken
     ): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        if (!this.profileManager.isPackageIncluded(batch.pkg, profile)) {
+            this.appendToOutputBuffer(`Skipping ${batch.pkg}: excluded by profile "${profile.name}"`);
+            (batch.whole ? [batch.pkgItem] : batch.tests).forEach(item => run.skipped(item));
             return;
         }
 
+        const config = this.profileManager.getEffectiveConfig(batch.pkg, profile, batch.cwd);
+        const outputItem = batch.whole ? batch.pkgItem : batch.tests[0];
+        const testNames = batch.tests.map(t => getTestItemData(t)!.testName!);
+
+        if (batch.whole) {
+            run.started(batch.pkgItem);
+        } else {
+            batch.tests.forEach(test => run.started(test));
+        }
+
+        const { pattern: skipPattern, ignored } = buildSkipPattern(batch.excluded);
+        const skipArgs = skipPattern ? ['-skip', skipPattern] : [];
+        if (ignored.length > 0) {
+            this.appendToOutputBuffer(`Cannot combine excluded subtests into one -skip pattern, they will still run: ${ignored.join(', ')}`);
+        }
+
+        const suiteMethods = new Set(batch.tests
+            .filter(test => getTestItemData(test)?.kind === 'suiteMethod')
+            .map(test => getTestItemData(test)!.testName!));
+        // A package run as a whole only runs the benchmarks that were selected next to it
+        const selections = batch.whole
+            ? [buildBenchmarkArgs(Array.from(new Set(testNames.filter(isBenchmarkName).map(name => name.split('/')[0]))))]
+            : buildSelectionArgs(testNames, suiteMethods);
+        for (const selection of selections) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            const args = ['test', '-json', ...selection, ...skipArgs, ...this.getCoverageArgs(), ...config.testFlags, batch.pkg];
+            await this.spawnGoTest(args, batch.cwd, run, config, token, outputItem);
+        }
+
+        // Selected tests never ran when their package did not build or TestMain failed
+        const packageError = this.packageErrors.get(batch.pkg);
+        if (packageError) {
+            batch.tests
+                .filter(test => !this.packageTestStatus.get(batch.pkg)?.has(getTestItemData(test)!.testName!))
+                .forEach(test => run.errored(test, packageError));
+            return;
+        }
+
+        // Selected benchmarks that printed neither a result nor a failure never ran
+        const statuses = this.packageTestStatus.get(batch.pkg);
+        for (const test of batch.tests) {
+            const testName = getTestItemData(test)!.testName!;
+            if (!isBenchmarkName(testName) || statuses?.has(testName) || token.isCancellationRequested) {
+                continue;
+            }
+            if (Array.from(statuses?.values() ?? []).includes('fail')) {
+                run.appendOutput(`${testName} did not run: go test skips benchmarks when a test of the package fails\r\n`, undefined, test);
+                run.skipped(test);
+            } else {
+                run.errored(test, new vscode.TestMessage('Benchmark did not report a result - see Output Channel'));
+            }
+        }
+    }
+
+    /**
+     * Spawns one go test -json process and streams its events into the run.
+     * Resolves with the exit code, or null when cancelled or go could not start.
+     */
+    private spawnGoTest(
+        args: string[],
+        cwd: string,
+        run: vscode.TestRun,
+        config: EffectiveTestConfig,
+        token: vscode.CancellationToken,
+        outputItem?: vscode.TestItem
+    ): Promise<number | null> {
         return new Promise((resolve) => {
-            const args = ['test', '-json', '-run', `^${testName}$`, ...profile.testFlags, pkg];
-            
             const proc = spawn('go', args, {
-                cwd: workspaceFolder.uri.fsPath,
-                env: { ...process.env, ...profile.testEnvVars }
+                cwd,
+                env: { ...process.env, ...config.testEnvVars }
             });
 
             let buffer = '';
+            let stderrBuffer = '';
             let cancelled = false;
+            const state: GoTestProcess = {
+                cwd,
+                appendBuildOutput: this.buildDiagnostics.createParser(cwd),
+                buildFailures: new Map(),
+                inFlight: new Map(),
+                packageOutput: new Map()
+            };
 
             const cleanup = () => {
                 if (!cancelled) {
@@ -287,11 +578,11 @@ export class TestRunner {
                 }
             };
 
-            token.onCancellationRequested(() => {
+            const cancellation = token.onCancellationRequested(() => {
                 this.appendToOutputBuffer('\n[Test run cancelled by user]');
                 this.flushOutputBuffer();
                 cleanup();
-                resolve();
+                resolve(null);
             });
 
             proc.stdout.on('data', (data) => {
@@ -299,10 +590,11 @@ export class TestRunner {
                 const lines = buffer.split('\n');
                 buffer = lines.pop() || '';
 
-                // Batch parse JSON events
+                // Batch parse JSON events to reduce overhead
                 const events: TestEvent[] = [];
                 for (const line of lines) {
                     if (line.trim()) {
+                        this.eventLog?.write(line);
                         try {
                             events.push(JSON.parse(line));
                         } catch (e) {
@@ -311,108 +603,210 @@ export class TestRunner {
                     }
                 }
                 
+                // Process all events in batch
                 for (const event of events) {
-                    this.handleTestEvent(event, run);
+                    this.handleTestEvent(event, run, state);
                 }
             });
 
             proc.stderr.on('data', (data) => {
                 const output = data.toString();
                 this.appendToOutputBuffer(output);
-                run.appendOutput(output.replace(/\n/g, '\r\n'), undefined, test);
+                if (outputItem) {
+                    run.appendOutput(output.replace(/\n/g, '\r\n'), undefined, outputItem);
+                }
+
+                // Compile errors of older Go versions only appear on stderr
+                stderrBuffer += output;
+                const lines = stderrBuffer.split('\n');
+                stderrBuffer = lines.pop() || '';
+                lines.forEach(line => state.appendBuildOutput(line));
+            });
+
+            proc.on('close', (code) => {
+                cancellation.dispose();
+                if (!cancelled) {
+                    if (stderrBuffer) {
+                        state.appendBuildOutput(stderrBuffer);
+                    }
+                    this.reportBuildFailures(state.buildFailures, run);
+                    // Tests still running when the process exited without a package result
+                    for (const pkg of state.inFlight.keys()) {
+                        this.finishInFlightTests(pkg, state, run);
+                    }
+                    this.flushOutputBuffer();
+                    resolve(code);
+                }
             });
 
-            proc.on('close', () => {
+            proc.on('error', (err) => {
+                cancellation.dispose();
                 if (!cancelled) {
-                    resolve();
+                    this.appendToOutputBuffer(`Failed to run go: ${err.message}`);
+                    resolve(null);
                 }
             });
         });
     }
 
-    private async runPackageTests(
-        pkg: string,
-        test: vscode.TestItem,
-        run: vscode.TestRun,
-        profile: any,
-        token: vscode.CancellationToken
-    ): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+    private getCoverageArgs(): string[] {
+        return this.coverageCollector ? [this.coverageCollector.createCoverProfileArg()] : [];
+    }
+
+    private async publishCoverage(run: vscode.TestRun): Promise<void> {
+        if (!this.coverageCollector) {
             return;
         }
 
-        return new Promise((resolve) => {
-            const args = ['test', '-json', ...profile.testFlags, pkg];
-            
-            const proc = spawn('go', args, {
-                cwd: workspaceFolder.uri.fsPath,
-                env: { ...process.env, ...profile.testEnvVars }
-            });
+        try {
+            const fileCount = await this.coverageCollector.publish(run);
+            this.appendToOutputBuffer(`\nCoverage collected for ${fileCount} files`);
+        } catch (error) {
+            this.appendToOutputBuffer(`\nError reading coverage profile: ${error}`);
+        }
+    }
 
-            let buffer = '';
-            let cancelled = false;
+    private reportBuildFailures(buildFailures: Map<string, string | undefined>, run: vscode.TestRun): void {
+        for (const [pkg, failedBuild] of buildFailures) {
+            this.buildDiagnostics.markFailed(pkg, failedBuild);
+            const failure = this.buildDiagnostics.getFailure(pkg);
+            const message = new vscode.TestMessage(failure?.output || 'Build failed - see Output Channel');
+            message.location = failure?.location;
+            this.reportPackageError(pkg, message, run);
+        }
+    }
 
-            const cleanup = () => {
-                if (!cancelled) {
-                    cancelled = true;
-                    this.killProcessTree(proc.pid!);
-                }
-            };
+    private reportPackageError(pkg: string, message: vscode.TestMessage, run: vscode.TestRun): void {
+        this.packageErrors.set(pkg, message);
+        const pkgItem = this.testDiscovery.getPackageItem(pkg);
+        if (pkgItem) {
+            run.errored(pkgItem, message);
+        }
+    }
 
-            token.onCancellationRequested(() => {
-                this.appendToOutputBuffer('\n[Test run cancelled by user]');
-                this.flushOutputBuffer();
-                cleanup();
-                resolve();
-            });
+    private appendPackageOutput(state: GoTestProcess, pkg: string, output: string): void {
+        if (!state.packageOutput.has(pkg)) {
+            state.packageOutput.set(pkg, []);
+        }
+        const lines = state.packageOutput.get(pkg)!;
+        lines.push(output);
+        if (lines.length > TestRunner.MAX_UI_OUTPUT_LINES) {
+            lines.shift();
+        }
+    }
 
-            proc.stdout.on('data', (data) => {
-                buffer += data.toString();
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
+    private finishPackage(pkg: string, action: string, state: GoTestProcess, run: vscode.TestRun): void {
+        this.finishInFlightTests(pkg, state, run);
 
-                // Batch parse JSON events
-                const events: TestEvent[] = [];
-                for (const line of lines) {
-                    if (line.trim()) {
-                        try {
-                            events.push(JSON.parse(line));
-                        } catch (e) {
-                            console.error('Error parsing JSON:', line);
-                        }
-                    }
-                }
-                
-                for (const event of events) {
-                    this.handleTestEvent(event, run);
-                }
-            });
+        // A failed package without a failed test points at TestMain or package initialization
+        const statuses = Array.from(this.packageTestStatus.get(pkg)?.values() ?? []);
+        if (action === 'fail' && !statuses.includes('fail')) {
+            const packageOutput = (state.packageOutput.get(pkg) ?? []).join('');
+            const summary = state.inFlight.has(pkg)
+                ? 'Package failed outside of its tests (TestMain or a deferred check)'
+                : 'Package failed before running its tests (TestMain or init)';
+            this.reportPackageError(pkg, new vscode.TestMessage(`${summary}\n\n${packageOutput}`.trimEnd()), run);
+        }
+    }
 
-            proc.stderr.on('data', (data) => {
-                const output = data.toString();
-                this.appendToOutputBuffer(output);
-                run.appendOutput(output.replace(/\n/g, '\r\n'), undefined, test);
-            });
+    /**
+     * Marks tests that never got a pass/fail/skip event as errored, e.g. after a
+     * panic or -timeout killed the test binary. Tests named in a timeout's
+     * "running tests:" list are reported as timed out.
+     */
+    private finishInFlightTests(pkg: string, state: GoTestProcess, run: vscode.TestRun): void {
+        const inFlight = state.inFlight.get(pkg);
+        if (!inFlight || inFlight.size === 0) {
+            return;
+        }
 
-            proc.on('close', () => {
-                if (!cancelled) {
-                    resolve();
-                }
-            });
-        });
+        const packageOutput = (state.packageOutput.get(pkg) ?? []).join('');
+        const timedOut = new Set<string>();
+        const timeout = packageOutput.match(/panic: test timed out after (\S+)/);
+        const runningTests = packageOutput.match(/running tests:\n((?:\s+\S+ \(.*\)\n?)+)/);
+        for (const line of runningTests?.[1].split('\n') ?? []) {
+            const name = line.trim().split(' ')[0];
+            if (name) {
+                timedOut.add(name);
+            }
+        }
+
+        for (const [testName, testItem] of inFlight) {
+            const testId = `${pkg}/${testName}`;
+            const testOutput = this.outputLog.getTestOutput(testId).join('');
+            const timedOutHere = timeout && (timedOut.size === 0 || timedOut.has(testName));
+            const panicked = /^panic: /m.test(testOutput + packageOutput);
+            // A benchmark with sub-benchmarks prints no result line of its own; a failed one gets a fail event
+            const statuses = Array.from(this.packageTestStatus.get(pkg)?.keys() ?? []);
+            if (!timedOutHere && !panicked && isBenchmarkName(testName) && statuses.some(name => name.startsWith(testName + '/'))) {
+                this.reportBenchmark(pkg, testName, testItem, 'pass', run, state);
+                continue;
+            }
+
+            let summary: string;
+            if (timedOutHere) {
+                summary = `Test timed out after ${timeout[1]}`;
+            } else if (panicked) {
+                summary = 'Test did not finish: the test binary panicked';
+            } else {
+                summary = 'Test did not finish: the test binary exited before reporting a result';
+            }
+
+            run.errored(testItem, new vscode.TestMessage(`${summary}\n\n${testOutput}${packageOutput}`.trimEnd()));
+            const result = this.testResults.get(testId);
+            if (result) {
+                result.status = 'fail';
+            }
+            this.updatePackageTestStatus(pkg, testName, 'fail');
+            this.releaseFilteredOutput(testId, 'fail');
+        }
+        inFlight.clear();
     }
 
-    private handleTestEvent(event: TestEvent, run: vscode.TestRun): void {
+    private handleTestEvent(
+        event: TestEvent,
+        run: vscode.TestRun,
+        state: GoTestProcess
+    ): void {
+        const { buildFailures } = state;
+        if (event.Action === 'build-output' && event.ImportPath) {
+            if (event.Output) {
+                this.appendToOutputBuffer(event.Output);
+                state.appendBuildOutput(event.Output, event.ImportPath);
+            }
+            return;
+        }
+        if (event.Action === 'build-fail') {
+            return;
+        }
+
         if (!event.Package || !event.Test) {
+            if (event.Package && (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip')) {
+                this.packageResults.set(event.Package, { pkg: event.Package, status: event.Action, elapsed: event.Elapsed });
+                if (event.FailedBuild) {
+                    buildFailures.set(event.Package, event.FailedBuild);
+                } else if (!buildFailures.has(event.Package)) {
+                    this.buildDiagnostics.clearPackage(event.Package);
+                    this.finishPackage(event.Package, event.Action, state, run);
+                }
+            }
             if (event.Output) {
                 this.appendToOutputBuffer(event.Output);
+                if (event.Package) {
+                    this.outputLog.appendPackageOutput(event.Package, event.Output);
+                    this.appendPackageOutput(state, event.Package, event.Output);
+                    // Older Go versions only say "FAIL\tpkg [build failed]"
+                    if (/^FAIL\s+\S+ \[(build|setup) failed\]/.test(event.Output)) {
+                        buildFailures.set(event.Package, buildFailures.get(event.Package));
+                    }
+                }
+                this.handleBenchmarkOutput(event.Package, event.Output, run, state);
             }
             return;
         }
 
         const testId = `${event.Package}/${event.Test}`;
-        const testItem = this.findTestItem(testId);
+        const testItem = this.getOrCreateSubtestItem(event.Package, event.Test);
 
         if (!testItem) {
             return;
@@ -430,15 +824,25 @@ export class TestRunner {
 
         const result = this.testResults.get(testId)!;
 
+        if (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip') {
+            state.inFlight.get(event.Package)?.delete(event.Test);
+        }
+
         switch (event.Action) {
             case 'run':
                 run.started(testItem);
+                if (!state.inFlight.has(event.Package)) {
+                    state.inFlight.set(event.Package, new Map());
+                }
+                state.inFlight.get(event.Package)!.set(event.Test, testItem);
                 break;
             case 'pass':
                 result.status = 'pass';
                 result.elapsed = event.Elapsed;
                 run.passed(testItem, event.Elapsed ? event.Elapsed * 1000 : undefined);
                 this.updatePackageTestStatus(event.Package, event.Test, 'pass');
+                this.releaseFilteredOutput(testId, 'pass');
+                this.pruneSubtestItems(testItem);
                 break;
             case 'fail':
                 result.status = 'fail';
@@ -449,35 +853,109 @@ export class TestRunner {
                 const truncationNotice = outputData?.truncated 
                     ? `[Output truncated - showing last ${TestRunner.MAX_OUTPUT_LINES} lines. See Output Channel for full output]\n\n` 
                     : '';
-                const message = this.createTestMessageWithLocation(
+                const message = this.createExampleDiffMessage(failureOutput, testItem) ?? this.createTestMessageWithLocation(
                     truncationNotice + failureOutput || 'Test failed - see Output Channel', 
-                    testItem
+                    testItem,
+                    this.outputLog.getTestOutput(testId).join('')
                 );
                 run.failed(testItem, message, event.Elapsed ? event.Elapsed * 1000 : undefined);
                 this.updatePackageTestStatus(event.Package, event.Test, 'fail');
+                this.releaseFilteredOutput(testId, 'fail');
+                this.pruneSubtestItems(testItem);
                 break;
             case 'skip':
                 result.status = 'skip';
                 run.skipped(testItem);
                 this.updatePackageTestStatus(event.Package, event.Test, 'skip');
+                this.releaseFilteredOutput(testId, 'skip');
                 break;
             case 'output':
                 if (event.Output) {
-                    this.handleTestOutput(testId, event.Output, testItem, run, result);
+                    this.handleTestOutput(testId, event.Package, event.Output, testItem, run, result);
+                    // A passed benchmark prints its result line but gets no pass event
+                    if (isBenchmarkResult(event.Test, event.Output)) {
+                        this.reportBenchmark(event.Package, event.Test, testItem, 'pass', run, state);
+                    }
                 }
                 break;
         }
     }
 
+    private handleBenchmarkOutput(pkg: string | undefined, output: string, run: vscode.TestRun, state: GoTestProcess): void {
+        // Older Go versions print benchmark results ("BenchmarkFoo-8   1000   1234 ns/op")
+        // and failures as package-level output, without any per-benchmark event
+        const result = output.match(/^(Benchmark\S*?)(?:-\d+)?\s+\d+\s/);
+        const failure = output.match(/^--- FAIL: (Benchmark\S+)/);
+        const testName = result?.[1] ?? failure?.[1];
+        const testItem = pkg && testName ? this.getOrCreateSubtestItem(pkg, testName) : undefined;
+        if (!pkg || !testName || !testItem) {
+            return;
+        }
+        if (result) {
+            this.appendToUIBuffer(`${pkg}/${testName}`, testItem, output);
+        }
+        this.reportBenchmark(pkg, testName, testItem, result ? 'pass' : 'fail', run, state);
+    }
+
+    /** Reports a benchmark result read from its output, unless an event already reported it. */
+    private reportBenchmark(
+        pkg: string,
+        testName: string,
+        testItem: vscode.TestItem,
+        status: 'pass' | 'fail',
+        run: vscode.TestRun,
+        state: GoTestProcess
+    ): void {
+        if (this.packageTestStatus.get(pkg)?.has(testName)) {
+            return;
+        }
+        state.inFlight.get(pkg)?.delete(testName);
+        const testId = `${pkg}/${testName}`;
+        const result = this.testResults.get(testId);
+        if (result) {
+            result.status = status;
+        }
+        if (status === 'pass') {
+            run.passed(testItem);
+        } else {
+            run.failed(testItem, new vscode.TestMessage('Benchmark failed - see Output Channel'));
+        }
+        this.updatePackageTestStatus(pkg, testName, status);
+        this.releaseFilteredOutput(testId, status);
+    }
+
+    private createExampleDiffMessage(output: string, testItem: vscode.TestItem): vscode.TestMessage | undefined {
+        if (getTestItemData(testItem)?.kind !== 'example') {
+            return undefined;
+        }
+
+        // go test reports example mismatches as "got:\n...\nwant:\n..."
+        const match = output.match(/^got:\n([\s\S]*?)\nwant:\n([\s\S]*?)\n?(?=^--- FAIL|^FAIL|$(?![\s\S]))/m);
+        if (!match) {
+            return undefined;
+        }
+
+        const message = vscode.TestMessage.diff('Example output does not match its // Output: comment', match[2], match[1]);
+        if (testItem.uri && testItem.range) {
+            message.location = new vscode.Location(testItem.uri, testItem.range.start);
+        }
+        return message;
+    }
+
     private handleTestOutput(
         testId: string,
+        pkg: string,
         output: string,
         testItem: vscode.TestItem,
         run: vscode.TestRun,
         result: TestResult
     ): void {
-        // Buffer output to reduce I/O overhead (flush every 64KB or 500 lines)
-        this.appendToOutputBuffer(output);
+        // Keep the output for re-rendering; with a filter active it is written once the status is known
+        this.outputLog.appendTestOutput(testId, pkg, result.name, output);
+        if (!this.isFiltering()) {
+            // Buffer output to reduce I/O overhead (flush every 64KB or 500 lines)
+            this.appendToOutputBuffer(output);
+        }
         
         // Buffer UI output instead of writing directly - reduces VS Code UI update overhead
         if (result.uiOutputLineCount < TestRunner.MAX_UI_OUTPUT_LINES) {
@@ -490,8 +968,8 @@ export class TestRunner {
             result.uiOutputLineCount++;
         }
         
-        // Only collect output for potential failures
-        if (this.shouldCollectOutput(output, result)) {
+        // Only collect output for potential failures (an example's whole output is its result)
+        if (getTestItemData(testItem)?.kind === 'example' || this.shouldCollectOutput(output, result)) {
             if (!this.failedTestsOutput.has(testId)) {
                 this.failedTestsOutput.set(testId, { lines: [], truncated: false });
             }
@@ -512,7 +990,8 @@ export class TestRunner {
             this.uiOutputBuffers.set(testId, {
                 testItem,
                 lines: [],
-                byteSize: 0
+                byteSize: 0,
+                held: this.isFiltering()
             });
         }
         
@@ -521,6 +1000,10 @@ export class TestRunner {
         buffer.lines.push(formatted);
         buffer.byteSize += formatted.length;
         
+        if (buffer.held) {
+            return;
+        }
+        
         // Flush individual buffer if it exceeds threshold
         if (buffer.byteSize >= TestRunner.UI_BUFFER_SIZE) {
             this.flushUIBuffer(testId);
@@ -541,7 +1024,7 @@ export class TestRunner {
 
     private flushUIBuffer(testId: string): void {
         const buffer = this.uiOutputBuffers.get(testId);
-        if (buffer && buffer.lines.length > 0 && this.currentRun) {
+        if (buffer && !buffer.held && buffer.lines.length > 0 && this.currentRun) {
             // Batch all lines into a single appendOutput call
             const batchedOutput = buffer.lines.join('');
             this.currentRun.appendOutput(batchedOutput, undefined, buffer.testItem);
@@ -561,6 +1044,52 @@ export class TestRunner {
         }
     }
 
+    private isFiltering(): boolean {
+        return !!this.outputFilter && this.outputFilter.getFilter() !== FilterMode.All;
+    }
+
+    /**
+     * Writes the held output of a finished test to the output channel and
+     * Test Explorer if it passes the filter, or drops it from the UI otherwise.
+     */
+    private releaseFilteredOutput(testId: string, status: 'pass' | 'fail' | 'skip'): void {
+        this.outputLog.setStatus(testId, status);
+        if (!this.isFiltering()) {
+            return;
+        }
+
+        const show = this.outputFilter!.shouldShowTest(status);
+        if (show) {
+            for (const line of this.outputLog.getTestOutput(testId)) {
+                this.appendToOutputBuffer(line);
+            }
+        }
+
+        const buffer = this.uiOutputBuffers.get(testId);
+        if (buffer?.held) {
+            if (show) {
+                buffer.held = false;
+                this.flushUIBuffer(testId);
+            } else {
+                this.uiOutputBuffers.delete(testId);
+            }
+        }
+    }
+
+    private renderFilteredOutput(): void {
+        if (!this.outputFilter || this.outputLog.size === 0) {
+            return;
+        }
+
+        this.flushOutputBuffer();
+        this.outputChannel.clear();
+        const lines = this.outputLog.render(
+            this.outputFilter.getFilter(),
+            status => this.outputFilter!.shouldShowTest(status)
+        );
+        this.outputChannel.appendLine(lines.map(line => line.trimEnd()).join('\n'));
+    }
+
     private appendToOutputBuffer(output: string): void {
         const trimmed = output.trimEnd();
         this.outputBuffer.push(trimmed);
@@ -607,25 +1136,68 @@ export class TestRunner {
                /\s+\S+_test\.go:\d+:/.test(output); // test file with line number (common in failures)
     }
 
-    private findTestItem(id: string): vscode.TestItem | undefined {
-        // Try to find exact match first
-        for (const [, pkgItem] of this.controller.items) {
-            const testItem = pkgItem.children.get(id);
-            if (testItem) {
-                return testItem;
-            }
+    /** Finds the item of a test or subtest ("TestFoo/case_1/nested") without creating any. */
+    private lookupTestItem(pkg: string, testName: string): vscode.TestItem | undefined {
+        const [topLevel, ...subtests] = testName.split('/');
+        let item = this.testDiscovery.getPackageItem(pkg)?.children.get(`${pkg}/${topLevel}`);
+        for (const subtest of subtests) {
+            item = item?.children.get(`${item.id}/${subtest}`);
         }
-        
-        // For subtests, try to find parent test
-        for (const [, pkgItem] of this.controller.items) {
-            for (const [, testItem] of pkgItem.children) {
-                if (id.startsWith(testItem.id + '/')) {
-                    return testItem;
-                }
+        return item;
+    }
+
+    /** Like lookupTestItem, but creates the items of subtests reported by go test on the fly. */
+    private getOrCreateSubtestItem(pkg: string, testName: string): vscode.TestItem | undefined {
+        const pkgItem = this.testDiscovery.getPackageItem(pkg);
+        if (!pkgItem) {
+            return undefined;
+        }
+
+        const [topLevel, ...subtests] = testName.split('/');
+        let item = pkgItem.children.get(`${pkg}/${topLevel}`);
+        let currentName = topLevel;
+
+        for (const subtest of subtests) {
+            if (!item) {
+                return undefined;
+            }
+            currentName += `/${subtest}`;
+            const childId = `${item.id}/${subtest}`;
+            let child = item.children.get(childId);
+            if (!child) {
+                child = this.controller.createTestItem(childId, subtest, item.uri);
+                child.range = item.range;
+                setTestItemData(child, { kind: 'subtest', pkg, moduleRoot: getTestItemData(item)?.moduleRoot, testName: currentName });
+                item.children.add(child);
             }
+            item = child;
         }
         
-        return undefined;
+        return item;
+    }
+
+    /**
+     * Once a test that ran with all its subtests has finished, removes the
+     * subtest items created on the fly that did not report, e.g. renamed or
+     * removed cases. Items found in the source stay.
+     */
+    private pruneSubtestItems(parent: vscode.TestItem): void {
+        let complete = false;
+        for (let item: vscode.TestItem | undefined = parent; item && !complete; item = item.parent) {
+            complete = this.completeRunIds.has(item.id);
+        }
+        if (!complete) {
+            return;
+        }
+
+        const stale: string[] = [];
+        parent.children.forEach(child => {
+            const data = getTestItemData(child);
+            if (data?.kind === 'subtest' && !data.fromSource && !this.testResults.has(child.id) && !this.excludedIds.has(child.id)) {
+                stale.push(child.id);
+            }
+        });
+        stale.forEach(id => parent.children.delete(id));
     }
 
     private killProcessTree(pid: number): void {
@@ -673,54 +1245,36 @@ export class TestRunner {
         }
     }
 
-    private parseStackTrace(output: string): StackFrame[] {
-        const frames: StackFrame[] = [];
-        const lines = output.split('\n');
-        
-        // Go stack trace format: filename.go:line or /full/path/filename.go:line
-        const stackTraceRegex = /^\s*(.+\.go):(\d+)/;
-        
-        for (const line of lines) {
-            const match = line.match(stackTraceRegex);
-            if (match) {
-                const [, file, lineNum] = match;
-                frames.push({
-                    file: file.trim(),
-                    line: parseInt(lineNum, 10),
-                    text: line.trim()
-                });
-            }
+    private createTestMessageWithLocation(output: string, testItem: vscode.TestItem, fullOutput: string): vscode.TestMessage {
+        // Assertion failures with an expected and actual value open in the diff viewer. The
+        // message only keeps failure-looking lines, so the values are read from the full output
+        const diff = parseAssertionDiff(fullOutput);
+        const message = diff
+            ? vscode.TestMessage.diff(output, diff.expected, diff.actual)
+            : new vscode.TestMessage(output);
+        const data = getTestItemData(testItem);
+        const resolver = new StackFrameResolver(this.testDiscovery.getModules());
+        const packageDir = (data && this.testDiscovery.getPackageItem(data.pkg)?.uri?.fsPath)
+            ?? (testItem.uri ? path.dirname(testItem.uri.fsPath) : undefined);
+
+        const frames = parseStackTrace(output).map(frame => {
+            const fsPath = resolver.resolve(frame.file, packageDir, data?.moduleRoot);
+            const position = new vscode.Position(Math.max(0, frame.line - 1), Math.max(0, (frame.column ?? 1) - 1));
+            return { fsPath, position, stackFrame: new vscode.TestMessageStackFrame(frame.label, fsPath ? vscode.Uri.file(fsPath) : undefined, position) };
+        });
+        if (frames.length > 0) {
+            message.stackTrace = frames.map(frame => frame.stackFrame);
         }
-        
-        return frames;
-    }
 
-    private createTestMessageWithLocation(output: string, testItem: vscode.TestItem): vscode.TestMessage {
-        const stackFrames = this.parseStackTrace(output);
-        const message = new vscode.TestMessage(output);
-        
-        if (stackFrames.length > 0) {
-            const firstFrame = stackFrames[0];
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            
-            if (workspaceFolder) {
-                let filePath = firstFrame.file;
-                
-                // If not absolute path, resolve relative to workspace
-                if (!require('path').isAbsolute(filePath)) {
-                    filePath = require('path').join(workspaceFolder.uri.fsPath, filePath);
-                }
-                
-                try {
-                    const fileUri = vscode.Uri.file(filePath);
-                    const position = new vscode.Position(Math.max(0, firstFrame.line - 1), 0);
-                    message.location = new vscode.Location(fileUri, position);
-                } catch (e) {
-                    // If we can't create the location, continue without it
-                }
-            }
+        // Innermost frame in the workspace, preferring test files over helpers
+        const workspaceFrames = frames.filter(frame => frame.fsPath && resolver.isWorkspaceFile(frame.fsPath));
+        const primary = workspaceFrames.find(frame => frame.fsPath!.endsWith('_test.go')) ?? workspaceFrames[0];
+        if (primary) {
+            message.location = new vscode.Location(vscode.Uri.file(primary.fsPath!), primary.position);
+        } else if (testItem.uri && testItem.range) {
+            message.location = new vscode.Location(testItem.uri, testItem.range.start);
         }
-        
+
         return message;
     }
 
@@ -735,7 +1289,7 @@ export class TestRunner {
         // VS Code Test Explorer will automatically manage tree state
         // We track package status for potential future use
         // The test results shown in the UI will naturally show failures prominently
-        for (const [, pkgItem] of this.controller.items) {
+        for (const pkgItem of this.testDiscovery.getPackageItems()) {
             const pkgId = pkgItem.id;
             const testStatuses = this.packageTestStatus.get(pkgId);
             
@@ -756,6 +1310,125 @@ export class TestRunner {
         }
     }
 
+    private startEventLog(): void {
+        // Only the last run's event log is kept
+        this.eventLog?.delete();
+        this.eventLog = new EventLogWriter();
+        this.packageResults.clear();
+        this.runStartTime = Date.now();
+    }
+
+    private async finishReport(profile: TestProfile): Promise<TestRunReport> {
+        await this.eventLog?.close();
+
+        const tests: ReportTestResult[] = [];
+        for (const [pkg, statuses] of this.packageTestStatus) {
+            for (const [testName, status] of statuses) {
+                const id = `${pkg}/${testName}`;
+                const test: ReportTestResult = { id, pkg, name: testName, status, elapsed: this.testResults.get(id)?.elapsed };
+                if (status === 'fail') {
+                    test.failureOutput = this.failedTestsOutput.get(id)?.lines.join('');
+                } else if (status === 'skip') {
+                    test.skipReason = this.outputLog.getTestOutput(id)
+                        .filter(line => !/^\s*(=== |--- SKIP)/.test(line))
+                        .map(line => line.trim())
+                        .join('\n') || undefined;
+                }
+                tests.push(test);
+            }
+        }
+
+        const report: TestRunReport = {
+            profile: profile.name,
+            startTime: this.runStartTime,
+            endTime: Date.now(),
+            tests,
+            packages: Array.from(this.packageResults.values()),
+            eventLogPath: this.eventLog?.path
+        };
+        this.lastReport = report;
+
+        if (profile.autoExportReport && tests.length > 0) {
+            const directory = getReportDirectory();
+            if (directory) {
+                try {
+                    const written = await writeReports(report, directory, ['junit', 'events', 'summary']);
+                    this.outputChannel.appendLine(`Test reports written: ${written.join(', ')}`);
+                } catch (error) {
+                    this.outputChannel.appendLine(`Error writing test reports: ${error}`);
+                }
+            }
+        }
+        return report;
+    }
+
+    getLastReport(): TestRunReport | undefined {
+        return this.lastReport;
+    }
+
+    private recordHistory(profileName: string): void {
+        if (!this.testHistory) {
+            return;
+        }
+
+        const results = [];
+        for (const [pkg, statuses] of this.packageTestStatus) {
+            for (const [testName, status] of statuses) {
+                const id = `${pkg}/${testName}`;
+                const elapsed = this.testResults.get(id)?.elapsed;
+                const item = this.lookupTestItem(pkg, testName);
+                results.push({
+                    id,
+                    name: testName,
+                    status,
+                    duration: elapsed !== undefined ? elapsed * 1000 : undefined,
+                    cwd: (item && getTestItemData(item)?.moduleRoot) ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+                });
+            }
+        }
+
+        if (results.length > 0) {
+            this.testHistory.record(results, profileName)
+                .then(() => this.markFlakyTests())
+                .catch(error => console.error('Error recording test history:', error));
+        }
+    }
+
+    /**
+     * Tags tests that both passed and failed on the same source (commit and uncommitted changes) as flaky.
+     */
+    markFlakyTests(): void {
+        if (!this.testHistory) {
+            return;
+        }
+
+        const visit = (item: vscode.TestItem) => {
+            const flaky = this.testHistory!.isFlaky(item.id);
+            const otherTags = item.tags.filter(tag => tag.id !== FLAKY_TAG.id);
+            const description = item.description?.replace(/^⚠ flaky( · )?/, '') || undefined;
+            if (flaky) {
+                item.tags = [...otherTags, FLAKY_TAG];
+                item.description = description ? `⚠ flaky · ${description}` : '⚠ flaky';
+            } else if (otherTags.length !== item.tags.length) {
+                item.tags = otherTags;
+                item.description = description;
+            }
+            item.children.forEach(visit);
+        };
+
+        for (const pkgItem of this.testDiscovery.getPackageItems()) {
+            pkgItem.children.forEach(visit);
+        }
+    }
+
+    dispose(): void {
+        this.filterSubscription?.dispose();
+        this.eventLog?.delete();
+        this.flushAllUIBuffers();
+        this.buildDiagnostics.dispose();
+        this.outputChannel.dispose();
+    }
+
     async clearAllResults(): Promise<void> {
         this.testResults.clear();
         this.failedTestsOutput.clear();
@@ -763,6 +1436,7 @@ export class TestRunner {
         this.outputBuffer = [];
         this.outputBufferSize = 0;
         this.uiOutputBuffers.clear();
+        this.outputLog.clear();
         if (this.uiFlushTimer) {
             clearTimeout(this.uiFlushTimer);
             this.uiFlushTimer = undefined;
@@ -774,7 +1448,7 @@ export class TestRunner {
         
         // Clear test results in the VS Code Test Explorer UI (batched)
         const itemsToInvalidate: vscode.TestItem[] = [];
-        for (const [, pkgItem] of this.controller.items) {
+        for (const pkgItem of this.testDiscovery.getPackageItems()) {
             pkgItem.description = undefined;
             itemsToInvalidate.push(pkgItem);
             for (const [, testItem] of pkgItem.children) {
@@ -789,3 +1463,10 @@ export class TestRunner {
         this.outputChannel.appendLine('All test results cleared');
     }
 }
+
+/** Whether output is the result line of a passed benchmark, e.g. "BenchmarkFoo-8   1000   1234 ns/op". */
+function isBenchmarkResult(testName: string, output: string): boolean {
+    return isBenchmarkName(testName)
+        && output.startsWith(testName)
+        && /^(-\d+)?\s+\d+\s/.test(output.substring(testName.length));
+}
@@ -2,6 +2,16 @@ import * as vscode from 'vscode';
 import { ProfileManager } from './config/profileManager';
 import { TestDiscovery } from './discovery/testDiscovery';
 import { TestRunner } from './runner/testRunner';
+import { ContinuousRunner } from './runner/continuousRunner';
+import { PackageGraph } from './discovery/packageGraph';
+import { TestDebugger } from './debug/testDebugger';
+import { GoFileCoverage } from './coverage/coverageCollector';
+import { TestHistory } from './history/testHistory';
+import { showTestHistory } from './ui/testHistoryView';
+import { manageProfiles, ProfileEditAction } from './ui/profileEditor';
+import { runWithProfiles } from './ui/profileComparison';
+import { runAffectedTests } from './runner/affectedTests';
+import { ReportFormat, writeReports, getReportDirectory } from './report/testReport';
 import { OutputFilter } from './ui/outputFilter';
 
 export class TestController {
@@ -9,13 +19,19 @@ export class TestController {
     private profileManager: ProfileManager;
     private testDiscovery: TestDiscovery | undefined;
     private testRunner: TestRunner | undefined;
+    private continuousRunner: ContinuousRunner | undefined;
+    private packageGraph: PackageGraph;
+    private testDebugger: TestDebugger | undefined;
     private statusBarItem: vscode.StatusBarItem;
     private outputFilter: OutputFilter;
+    private testHistory: TestHistory;
     private configWatcher: vscode.Disposable;
 
     constructor(private context: vscode.ExtensionContext) {
         this.profileManager = new ProfileManager();
+        this.packageGraph = new PackageGraph();
         this.outputFilter = new OutputFilter(context);
+        this.testHistory = new TestHistory(context.storageUri ?? context.globalStorageUri);
         
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Left,
@@ -36,6 +52,13 @@ export class TestController {
             if (e.affectsConfiguration('goTestRunner.setAsDefaultRunner')) {
                 this.handleDefaultRunnerChange();
             }
+            if (e.affectsConfiguration('goTestRunner.autoDiscover')) {
+                this.handleAutoDiscoverChange();
+            }
+            if (e.affectsConfiguration('goTestRunner.profiles')) {
+                // Build tags may have changed
+                this.testDiscovery?.markExcludedTests();
+            }
         });
         context.subscriptions.push(this.configWatcher);
         
@@ -60,8 +83,11 @@ export class TestController {
             'Go Test Runner'
         );
         
-        this.testDiscovery = new TestDiscovery(this.controller);
-        this.testRunner = new TestRunner(this.controller, this.profileManager, this.testDiscovery, this.outputFilter);
+        this.testDiscovery = new TestDiscovery(this.controller, this.packageGraph, this.profileManager);
+        this.testRunner = new TestRunner(this.controller, this.profileManager, this.testDiscovery, this.outputFilter, this.testHistory);
+        this.continuousRunner = new ContinuousRunner(this.testRunner, this.testDiscovery, this.packageGraph);
+        this.testDebugger = new TestDebugger(this.controller, this.profileManager);
+        this.handleAutoDiscoverChange();
         
         this.updateStatusBar();
         this.statusBarItem.show();
@@ -72,22 +98,43 @@ export class TestController {
         const config = vscode.workspace.getConfiguration('goTestRunner');
         const isDefault = config.get<boolean>('setAsDefaultRunner', false);
         
-        // Create run profile - not default to avoid auto-running with other test controllers
+        // Create run profile - not default to avoid auto-running with other test controllers.
+        // Continuous runs watch for changes and rerun the affected packages.
         this.controller.createRunProfile(
             'Go Test Runner',
             vscode.TestRunProfileKind.Run,
-            (request, token) => this.testRunner!.runTests(request, token),
-            isDefault
+            async (request, token) => {
+                if (request.continuous) {
+                    await this.continuousRunner!.watch(request, token);
+                } else {
+                    await this.testRunner!.runTests(request, token);
+                }
+            },
+            isDefault,
+            undefined,
+            true
         );
         
-        // Create debug profile
+        // Create debug profile - builds the test binary and launches it under dlv
         this.controller.createRunProfile(
             'Go Test Runner (Debug)',
             vscode.TestRunProfileKind.Debug,
-            (request, token) => this.testRunner!.runTests(request, token),
+            (request, token) => this.testDebugger!.debugTests(request, token),
             false
         );
         
+        // Create coverage profile - runs with -coverprofile and shows line coverage in the editor
+        const coverageProfile = this.controller.createRunProfile(
+            'Go Test Runner (Coverage)',
+            vscode.TestRunProfileKind.Coverage,
+            async (request, token) => {
+                await this.testRunner!.runTests(request, token, { coverage: true });
+            },
+            false
+        );
+        coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) =>
+            fileCoverage instanceof GoFileCoverage ? fileCoverage.details : [];
+        
         this.refreshTests();
         const msg = isDefault 
             ? 'Go Test Runner controller enabled (set as default)' 
@@ -99,8 +146,13 @@ export class TestController {
         if (this.controller) {
             this.controller.dispose();
             this.controller = undefined;
+            this.testDiscovery?.dispose();
             this.testDiscovery = undefined;
+            this.testRunner?.dispose();
             this.testRunner = undefined;
+            this.continuousRunner = undefined;
+            this.testDebugger?.dispose();
+            this.testDebugger = undefined;
             this.statusBarItem.hide();
             vscode.window.showInformationMessage('Go Test Runner controller disabled - using default Go extension');
         }
@@ -119,12 +171,28 @@ export class TestController {
         }
     }
 
+    private handleAutoDiscoverChange(): void {
+        if (!this.testDiscovery) {
+            return;
+        }
+        
+        const config = vscode.workspace.getConfiguration('goTestRunner');
+        if (config.get<boolean>('autoDiscover', true)) {
+            this.testDiscovery.startWatching();
+        } else {
+            this.testDiscovery.stopWatching();
+        }
+    }
+
     async refreshTests(): Promise<void> {
         if (!this.testDiscovery) {
             vscode.window.showWarningMessage('Test controller is disabled. Enable it in settings.');
             return;
         }
+        this.packageGraph.invalidate();
         await this.testDiscovery.discoverTests();
+        await this.testHistory.whenLoaded();
+        this.testRunner?.markFlakyTests();
         vscode.window.showInformationMessage('Tests refreshed');
     }
 
@@ -132,10 +200,22 @@ export class TestController {
         const profile = await this.profileManager.selectProfile();
         if (profile) {
             this.updateStatusBar();
+            this.testDiscovery?.markExcludedTests();
             vscode.window.showInformationMessage(`Switched to profile: ${profile.name}`);
         }
     }
 
+    async manageProfiles(action: ProfileEditAction): Promise<void> {
+        await manageProfiles(this.profileManager, action);
+        // The active profile may have been renamed or deleted
+        this.updateStatusBar();
+        this.testDiscovery?.markExcludedTests();
+    }
+
+    async showEffectiveProfile(): Promise<void> {
+        await this.profileManager.showEffectiveProfile();
+    }
+
     async runAllTests(): Promise<void> {
         if (!this.testRunner) {
             vscode.window.showWarningMessage('Test controller is disabled. Enable it in settings.');
@@ -144,6 +224,85 @@ export class TestController {
         await this.testRunner.runAllTests();
     }
 
+    async showTestHistory(item?: vscode.TestItem): Promise<void> {
+        await showTestHistory(this.testHistory, item?.id);
+    }
+
+    async runWithProfiles(item?: vscode.TestItem, items?: vscode.TestItem[]): Promise<void> {
+        if (!this.testRunner) {
+            vscode.window.showWarningMessage('Test controller is disabled. Enable it in settings.');
+            return;
+        }
+        // From the Test Explorer the clicked item and the whole selection are passed in
+        const include = items?.length ? items : item ? [item] : undefined;
+        await runWithProfiles(this.profileManager, this.testRunner, include);
+    }
+
+    async rerunFailedTests(): Promise<void> {
+        if (!this.testRunner) {
+            vscode.window.showWarningMessage('Test controller is disabled. Enable it in settings.');
+            return;
+        }
+        const rerun = await this.testRunner.rerunFailedTests();
+        if (!rerun) {
+            vscode.window.showInformationMessage('No failed tests in the last run');
+        }
+    }
+
+    async runAffectedTests(): Promise<void> {
+        if (!this.testRunner || !this.testDiscovery) {
+            vscode.window.showWarningMessage('Test controller is disabled. Enable it in settings.');
+            return;
+        }
+        try {
+            const ran = await runAffectedTests(this.testRunner, this.testDiscovery, this.packageGraph);
+            if (!ran) {
+                vscode.window.showInformationMessage('No tests are affected by the current changes');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to find affected tests: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    async exportReport(): Promise<void> {
+        const report = this.testRunner?.getLastReport();
+        if (!report || report.tests.length === 0) {
+            vscode.window.showWarningMessage('No test run to export. Run some tests first.');
+            return;
+        }
+
+        const formats = await vscode.window.showQuickPick(
+            [
+                { label: 'JUnit XML', format: 'junit' as ReportFormat, picked: true },
+                { label: 'go test -json event log', format: 'events' as ReportFormat, picked: true },
+                { label: 'JSON summary', format: 'summary' as ReportFormat, picked: true }
+            ],
+            { placeHolder: 'Select report formats to export', canPickMany: true }
+        );
+        if (!formats || formats.length === 0) {
+            return;
+        }
+
+        const directory = getReportDirectory();
+        if (!directory) {
+            vscode.window.showWarningMessage('Open a workspace folder or set goTestRunner.reportDirectory to an absolute path.');
+            return;
+        }
+
+        try {
+            const written = await writeReports(report, directory, formats.map(f => f.format));
+            const selection = await vscode.window.showInformationMessage(
+                `Exported ${written.length} test report(s) to ${directory}`,
+                'Open Report'
+            );
+            if (selection === 'Open Report' && written.length > 0) {
+                await vscode.window.showTextDocument(vscode.Uri.file(written[0]));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export test report: ${error}`);
+        }
+    }
+
     async toggleOutputFilter(): Promise<void> {
         await this.outputFilter.toggleFilter();
     }
@@ -165,6 +324,9 @@ export class TestController {
 
     dispose(): void {
         this.controller?.dispose();
+        this.testDiscovery?.dispose();
+        this.testRunner?.dispose();
+        this.testDebugger?.dispose();
         this.statusBarItem.dispose();
         this.outputFilter.dispose();
         this.configWatcher.dispose();
@@ -10,6 +10,8 @@ export enum FilterMode {
 export class OutputFilter {
     private currentFilter: FilterMode = FilterMode.All;
     private statusBarItem: vscode.StatusBarItem;
+    private changeEmitter = new vscode.EventEmitter<FilterMode>();
+    readonly onDidChangeFilter = this.changeEmitter.event;
 
     constructor(context: vscode.ExtensionContext) {
         this.statusBarItem = vscode.window.createStatusBarItem(
@@ -36,6 +38,7 @@ export class OutputFilter {
         });
 
         if (selected) {
+            const previous = this.currentFilter;
             switch (selected.label) {
                 case '$(checklist) All Tests':
                     this.currentFilter = FilterMode.All;
@@ -51,6 +54,9 @@ export class OutputFilter {
                     break;
             }
             this.updateStatusBar();
+            if (this.currentFilter !== previous) {
+                this.changeEmitter.fire(this.currentFilter);
+            }
         }
     }
 
@@ -96,5 +102,6 @@ export class OutputFilter {
 
     dispose(): void {
         this.statusBarItem.dispose();
+        this.changeEmitter.dispose();
     }
 }
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { ProfileManager } from '../config/profileManager';
+import { TestRunner } from '../runner/testRunner';
+import { ReportTestResult } from '../report/testReport';
+
+interface ProfileRunResult {
+    profile: string;
+    tests: Map<string, ReportTestResult>;
+}
+
+interface ComparisonRow {
+    id: string;
+    pkg: string;
+    name: string;
+    results: (ReportTestResult | undefined)[]; // one per profile, in profile order
+    differs: boolean;
+}
+
+const STATUS_LABELS: { [status in ReportTestResult['status']]: string } = {
+    pass: '✅ pass',
+    fail: '❌ fail',
+    skip: '⏭ skip'
+};
+
+// Larger comparisons only list the interesting tests
+const MAX_ROWS_WITH_PASSING = 1000;
+
+/**
+ * Runs the given tests once per selected profile, one profile after the
+ * other, and opens a test × profile matrix of the outcomes. Runs share the
+ * runner's per-run state, so they cannot overlap.
+ */
+export async function runWithProfiles(
+    profileManager: ProfileManager,
+    testRunner: TestRunner,
+    include: vscode.TestItem[] | undefined
+): Promise<void> {
+    const activeName = profileManager.getActiveProfileName();
+    const picked = await vscode.window.showQuickPick(
+        profileManager.getProfiles().map(p => ({
+            label: p.name,
+            description: p.extends ? `extends ${p.extends}` : p.testFlags.join(' '),
+            picked: p.name === activeName
+        })),
+        { placeHolder: 'Select the profiles to run the tests with', canPickMany: true }
+    );
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    const results: ProfileRunResult[] = [];
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Running tests with profiles', cancellable: true },
+        async (progress, token) => {
+            for (const item of picked) {
+                const profile = profileManager.getProfile(item.label);
+                if (!profile || token.isCancellationRequested) {
+                    continue;
+                }
+                progress.report({ message: profile.name, increment: 100 / picked.length });
+                const report = await testRunner.runTests(new vscode.TestRunRequest(include), token, { profile });
+                if (!token.isCancellationRequested && report) {
+                    results.push({ profile: profile.name, tests: new Map(report.tests.map(t => [t.id, t])) });
+                }
+            }
+        }
+    );
+
+    if (results.length === 0) {
+        return;
+    }
+
+    const rows = compareResults(results);
+    const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: renderComparison(results.map(r => r.profile), rows)
+    });
+    await vscode.commands.executeCommand('markdown.showPreview', document.uri)
+        .then(undefined, () => vscode.window.showTextDocument(document));
+}
+
+function compareResults(results: ProfileRunResult[]): ComparisonRow[] {
+    const ids = new Set(results.flatMap(r => Array.from(r.tests.keys())));
+    const rows: ComparisonRow[] = [];
+
+    for (const id of ids) {
+        const perProfile = results.map(r => r.tests.get(id));
+        const first = perProfile.find(Boolean)!;
+        const statuses = new Set(perProfile.filter(Boolean).map(t => t!.status));
+        // A test that did not run under some profile (e.g. excluded by its package rules) differs too
+        const differs = statuses.size > 1 || perProfile.some(t => !t);
+        rows.push({ id, pkg: first.pkg, name: first.name, results: perProfile, differs });
+    }
+
+    // Tests whose outcome depends on the profile come first
+    return rows.sort((a, b) => Number(b.differs) - Number(a.differs) || a.id.localeCompare(b.id));
+}
+
+function renderComparison(profiles: string[], rows: ComparisonRow[]): string {
+    const differing = rows.filter(r => r.differs).length;
+    const showAll = rows.length <= MAX_ROWS_WITH_PASSING;
+    const shown = showAll ? rows : rows.filter(r => r.differs || r.results.some(t => t?.status === 'fail'));
+
+    const lines = [
+        '# Test Results by Profile',
+        '',
+        `${differing} of ${rows.length} tests have a different outcome depending on the profile.`,
+        ...(showAll ? [] : ['', `Only tests that differ or fail are listed (${shown.length} of ${rows.length}).`]),
+        '',
+        `| Test | Package | ${profiles.map(escapeCell).join(' | ')} |`,
+        `|---|---|${profiles.map(() => '---').join('|')}|`
+    ];
+
+    for (const row of shown) {
+        const name = row.differs ? `⚠ **${escapeCell(row.name)}**` : escapeCell(row.name);
+        const cells = row.results.map(test => test
+            ? `${STATUS_LABELS[test.status]}${test.elapsed !== undefined ? ` ${test.elapsed.toFixed(2)}s` : ''}`
+            : '—');
+        lines.push(`| ${name} | ${escapeCell(row.pkg)} | ${cells.join(' | ')} |`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, '\\|');
+}
@@ -0,0 +1,441 @@
+import * as vscode from 'vscode';
+import { ProfileManager } from '../config/profileManager';
+import { parseFlagString, validateTestFlags } from '../config/goTestFlags';
+import { TestProfile } from '../models/testProfile';
+
+export type ProfileEditAction = 'create' | 'duplicate' | 'rename' | 'edit' | 'delete';
+
+type ProfileField = 'testFlags' | 'testEnvVars' | 'extends' | 'buildTags' | 'timeout' | 'count' | 'shuffle' | 'envFile' | 'autoExportReport';
+
+/**
+ * Guided QuickPick/InputBox flows for goTestRunner.profiles. Changes are
+ * written back to the settings scope (user, workspace or folder) that defines them.
+ */
+export async function manageProfiles(manager: ProfileManager, action: ProfileEditAction): Promise<void> {
+    switch (action) {
+        case 'create':
+            return createProfile(manager);
+        case 'duplicate':
+            return duplicateProfile(manager);
+        case 'rename':
+            return renameProfile(manager);
+        case 'edit':
+            return editProfile(manager);
+        case 'delete':
+            return deleteProfile(manager);
+    }
+}
+
+async function createProfile(manager: ProfileManager): Promise<void> {
+    const profiles = getStoredProfiles(manager);
+    const name = await vscode.window.showInputBox({
+        prompt: 'Name of the new test profile',
+        validateInput: nameValidator(profiles)
+    });
+    if (!name) {
+        return;
+    }
+
+    const base = await vscode.window.showQuickPick(
+        [
+            { label: 'None', description: 'Start from scratch', name: undefined as string | undefined },
+            ...profiles.map(p => ({ label: p.name, description: p.testFlags.join(' '), name: p.name as string | undefined }))
+        ],
+        { placeHolder: 'Inherit flags and environment from another profile?' }
+    );
+    if (!base) {
+        return;
+    }
+
+    const testFlags = await promptFlags(base.name ? [] : ['-v'], base.name ? `Flags added to those of "${base.name}"` : undefined);
+    if (testFlags === undefined) {
+        return;
+    }
+
+    const profile: TestProfile = { name: name.trim(), testFlags, testEnvVars: {} };
+    if (base.name) {
+        profile.extends = base.name;
+    }
+    if (await save(manager, [...profiles, profile])) {
+        vscode.window.showInformationMessage(`Created test profile: ${profile.name}`);
+    }
+}
+
+async function duplicateProfile(manager: ProfileManager): Promise<void> {
+    const profiles = getStoredProfiles(manager);
+    const source = await pickProfile(manager, profiles, 'Select a profile to duplicate');
+    if (!source) {
+        return;
+    }
+
+    let suggestion = `${source.name} (copy)`;
+    for (let i = 2; profiles.some(p => p.name === suggestion); i++) {
+        suggestion = `${source.name} (copy ${i})`;
+    }
+    const name = await vscode.window.showInputBox({
+        prompt: `Name of the copy of "${source.name}"`,
+        value: suggestion,
+        validateInput: nameValidator(profiles)
+    });
+    if (!name) {
+        return;
+    }
+
+    const copy: TestProfile = { ...JSON.parse(JSON.stringify(source)), name: name.trim() };
+    if (await save(manager, [...profiles, copy])) {
+        vscode.window.showInformationMessage(`Created test profile: ${copy.name}`);
+    }
+}
+
+async function renameProfile(manager: ProfileManager): Promise<void> {
+    const profiles = getStoredProfiles(manager);
+    const profile = await pickProfile(manager, profiles, 'Select a profile to rename');
+    if (!profile) {
+        return;
+    }
+
+    const input = await vscode.window.showInputBox({
+        prompt: `New name for "${profile.name}"`,
+        value: profile.name,
+        validateInput: nameValidator(profiles, profile.name)
+    });
+    const name = input?.trim();
+    if (!name || name === profile.name) {
+        return;
+    }
+
+    // Profiles extending the renamed one follow it
+    const renamed = profiles.map(p => ({
+        ...p,
+        name: p.name === profile.name ? name : p.name,
+        ...(p.extends === profile.name ? { extends: name } : {})
+    }));
+    const wasActive = manager.getActiveProfileName() === profile.name;
+    if (await save(manager, renamed)) {
+        if (wasActive) {
+            manager.setActiveProfile(name);
+        }
+        vscode.window.showInformationMessage(`Renamed test profile "${profile.name}" to "${name}"`);
+    }
+}
+
+async function deleteProfile(manager: ProfileManager): Promise<void> {
+    const profiles = getStoredProfiles(manager);
+    const profile = await pickProfile(manager, profiles, 'Select a profile to delete');
+    if (!profile) {
+        return;
+    }
+
+    if (profiles.length === 1) {
+        vscode.window.showErrorMessage('The last test profile cannot be deleted.');
+        return;
+    }
+    const dependents = profiles.filter(p => p.extends === profile.name).map(p => p.name);
+    if (dependents.length > 0) {
+        vscode.window.showErrorMessage(`Cannot delete "${profile.name}": it is extended by ${dependents.join(', ')}.`);
+        return;
+    }
+
+    const confirmed = await vscode.window.showWarningMessage(`Delete test profile "${profile.name}"?`, { modal: true }, 'Delete');
+    if (confirmed !== 'Delete') {
+        return;
+    }
+
+    const remaining = profiles.filter(p => p.name !== profile.name);
+    const wasActive = manager.getActiveProfileName() === profile.name;
+    if (await save(manager, remaining)) {
+        if (wasActive) {
+            manager.setActiveProfile(remaining[0].name);
+        }
+        vscode.window.showInformationMessage(`Deleted test profile: ${profile.name}`);
+    }
+}
+
+async function editProfile(manager: ProfileManager): Promise<void> {
+    const selected = await pickProfile(manager, getStoredProfiles(manager), 'Select a profile to edit');
+    if (!selected) {
+        return;
+    }
+
+    // Keep offering fields until the user is done; every change is saved right away
+    for (;;) {
+        const profiles = getStoredProfiles(manager);
+        const profile = profiles.find(p => p.name === selected.name);
+        if (!profile) {
+            return;
+        }
+
+        const field = await vscode.window.showQuickPick(getFieldItems(profile), {
+            placeHolder: `Edit test profile "${profile.name}"`
+        });
+        if (!field) {
+            return;
+        }
+        if (!field.field) {
+            // Package rules and overrides are edited as JSON
+            await vscode.commands.executeCommand(getSettingsFileCommand(manager.getProfilesTarget()?.target));
+            return;
+        }
+
+        const updated = await editField(profile, field.field, profiles);
+        if (updated && !await save(manager, profiles.map(p => p.name === profile.name ? updated : p))) {
+            return;
+        }
+    }
+}
+
+function getFieldItems(profile: TestProfile): (vscode.QuickPickItem & { field?: ProfileField })[] {
+    const envFiles = profile.envFile === undefined ? [] : ([] as string[]).concat(profile.envFile);
+    return [
+        { label: 'Flags', description: profile.testFlags.join(' ') || '(none)', field: 'testFlags' },
+        { label: 'Environment Variables', description: `${Object.keys(profile.testEnvVars).length} set`, field: 'testEnvVars' },
+        { label: 'Extends', description: profile.extends ?? '(none)', field: 'extends' },
+        { label: 'Build Tags', description: profile.buildTags?.join(',') || '(none)', field: 'buildTags' },
+        { label: 'Timeout', description: profile.timeout ?? '(go test default)', field: 'timeout' },
+        { label: 'Count', description: profile.count?.toString() ?? '(not set)', field: 'count' },
+        { label: 'Shuffle', description: profile.shuffle?.toString() ?? '(not set)', field: 'shuffle' },
+        { label: 'Env Files', description: envFiles.join(', ') || '(none)', field: 'envFile' },
+        { label: 'Auto Export Report', description: profile.autoExportReport ? 'on' : 'off', field: 'autoExportReport' },
+        { label: 'Edit in settings.json', description: 'Package include/exclude rules and per-package overrides' }
+    ];
+}
+
+async function editField(profile: TestProfile, field: ProfileField, profiles: TestProfile[]): Promise<TestProfile | undefined> {
+    switch (field) {
+        case 'testFlags': {
+            const testFlags = await promptFlags(profile.testFlags);
+            return testFlags && { ...profile, testFlags };
+        }
+        case 'testEnvVars': {
+            const testEnvVars = await editEnvVars(profile.testEnvVars);
+            return testEnvVars && { ...profile, testEnvVars };
+        }
+        case 'extends': {
+            const base = await pickBaseProfile(profile, profiles);
+            return base && withOptional(profile, 'extends', base.name);
+        }
+        case 'buildTags': {
+            const value = await vscode.window.showInputBox({
+                prompt: 'Build tags, separated by commas (empty to clear)',
+                value: profile.buildTags?.join(',') ?? ''
+            });
+            const tags = value?.split(/[\s,]+/).filter(Boolean);
+            return tags && withOptional(profile, 'buildTags', tags.length > 0 ? tags : undefined);
+        }
+        case 'timeout': {
+            const value = await vscode.window.showInputBox({
+                prompt: 'Test timeout as a Go duration, e.g. 30s or 10m (empty to clear)',
+                value: profile.timeout ?? '',
+                validateInput: v => !v.trim() || /^(\d+(\.\d+)?(ns|us|µs|ms|s|m|h))+$/.test(v.trim()) ? undefined : 'Enter a Go duration such as 90s or 1h30m'
+            });
+            return value === undefined ? undefined : withOptional(profile, 'timeout', value.trim() || undefined);
+        }
+        case 'count': {
+            const value = await vscode.window.showInputBox({
+                prompt: 'Number of times to run each test (empty to clear)',
+                value: profile.count?.toString() ?? '',
+                validateInput: v => !v.trim() || /^[1-9]\d*$/.test(v.trim()) ? undefined : 'Enter a positive whole number'
+            });
+            return value === undefined ? undefined : withOptional(profile, 'count', value.trim() ? parseInt(value, 10) : undefined);
+        }
+        case 'shuffle':
+            return editShuffle(profile);
+        case 'envFile': {
+            const current = profile.envFile === undefined ? [] : ([] as string[]).concat(profile.envFile);
+            const value = await vscode.window.showInputBox({
+                prompt: 'dotenv files, separated by commas; later files override earlier ones (empty to clear)',
+                value: current.join(', ')
+            });
+            const files = value?.split(',').map(f => f.trim()).filter(Boolean);
+            return files && withOptional(profile, 'envFile', files.length === 0 ? undefined : files.length === 1 ? files[0] : files);
+        }
+        case 'autoExportReport':
+            return withOptional(profile, 'autoExportReport', profile.autoExportReport ? undefined : true);
+    }
+}
+
+async function promptFlags(initial: string[], prompt?: string): Promise<string[] | undefined> {
+    const value = await vscode.window.showInputBox({
+        prompt: prompt ?? 'go test flags, e.g. -v -race -p=4',
+        value: initial.map(flag => /\s/.test(flag) ? `"${flag}"` : flag).join(' '),
+        validateInput: input => validateTestFlags(parseFlagString(input)).join('; ') || undefined
+    });
+    return value === undefined ? undefined : parseFlagString(value);
+}
+
+async function editEnvVars(initial: { [key: string]: string }): Promise<{ [key: string]: string } | undefined> {
+    const env = { ...initial };
+
+    for (;;) {
+        const items: (vscode.QuickPickItem & { key?: string; done?: boolean })[] = [
+            { label: '$(check) Done', done: true },
+            { label: '$(add) Add Variable' },
+            ...Object.entries(env).map(([key, value]) => ({ label: key, description: value, key }))
+        ];
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Environment variables' });
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.done) {
+            return env;
+        }
+
+        if (selected.key) {
+            const value = await vscode.window.showInputBox({
+                prompt: `Value for ${selected.key} (empty to remove)`,
+                value: env[selected.key]
+            });
+            if (value === '') {
+                delete env[selected.key];
+            } else if (value !== undefined) {
+                env[selected.key] = value;
+            }
+        } else {
+            const entry = await vscode.window.showInputBox({
+                prompt: 'New variable as KEY=VALUE',
+                validateInput: v => /^[A-Za-z_][A-Za-z0-9_]*=/.test(v) ? undefined : 'Use the form KEY=VALUE'
+            });
+            if (entry) {
+                const index = entry.indexOf('=');
+                env[entry.substring(0, index)] = entry.substring(index + 1);
+            }
+        }
+    }
+}
+
+async function pickBaseProfile(profile: TestProfile, profiles: TestProfile[]): Promise<{ name?: string } | undefined> {
+    // Profiles that (indirectly) extend this one would create a cycle
+    const extendsProfile = (candidate: TestProfile, seen: Set<string> = new Set()): boolean => {
+        if (!candidate.extends || seen.has(candidate.name)) {
+            return false;
+        }
+        seen.add(candidate.name);
+        const parent = profiles.find(p => p.name === candidate.extends);
+        return candidate.extends === profile.name || (!!parent && extendsProfile(parent, seen));
+    };
+
+    return vscode.window.showQuickPick(
+        [
+            { label: 'None', name: undefined as string | undefined },
+            ...profiles
+                .filter(p => p.name !== profile.name && !extendsProfile(p))
+                .map(p => ({ label: p.name, description: p.testFlags.join(' '), name: p.name as string | undefined }))
+        ],
+        { placeHolder: `Profile for "${profile.name}" to inherit from` }
+    );
+}
+
+async function editShuffle(profile: TestProfile): Promise<TestProfile | undefined> {
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: 'Not set', value: 'unset' },
+            { label: 'on', description: 'Random order with a new seed each run', value: 'on' },
+            { label: 'off', value: 'off' },
+            { label: 'Seed...', description: 'Reproduce a specific order', value: 'seed' }
+        ],
+        { placeHolder: 'Shuffle test and benchmark order (-shuffle)' }
+    );
+    if (!choice) {
+        return undefined;
+    }
+    if (choice.value === 'unset') {
+        return withOptional(profile, 'shuffle', undefined);
+    }
+    if (choice.value !== 'seed') {
+        return withOptional(profile, 'shuffle', choice.value as 'on' | 'off');
+    }
+
+    const seed = await vscode.window.showInputBox({
+        prompt: 'Shuffle seed',
+        value: typeof profile.shuffle === 'number' ? profile.shuffle.toString() : '',
+        validateInput: v => /^-?\d+$/.test(v.trim()) ? undefined : 'Enter a whole number'
+    });
+    return seed === undefined ? undefined : withOptional(profile, 'shuffle', parseInt(seed, 10));
+}
+
+async function pickProfile(manager: ProfileManager, profiles: TestProfile[], placeHolder: string): Promise<TestProfile | undefined> {
+    const activeName = manager.getActiveProfileName();
+    const selected = await vscode.window.showQuickPick(
+        profiles.map(p => ({
+            label: p.name,
+            description: [p.name === activeName ? 'active' : undefined, p.extends ? `extends ${p.extends}` : undefined]
+                .filter(Boolean).join(' · '),
+            detail: p.testFlags.join(' ') || undefined,
+            profile: p
+        })),
+        { placeHolder }
+    );
+    return selected?.profile;
+}
+
+function nameValidator(profiles: TestProfile[], currentName?: string): (value: string) => string | undefined {
+    return value => {
+        const name = value.trim();
+        if (!name) {
+            return 'Enter a profile name';
+        }
+        if (name !== currentName && profiles.some(p => p.name === name)) {
+            return `A profile named "${name}" already exists`;
+        }
+        return undefined;
+    };
+}
+
+function withOptional<K extends keyof TestProfile>(profile: TestProfile, key: K, value: TestProfile[K] | undefined): TestProfile {
+    const updated = { ...profile };
+    if (value === undefined) {
+        delete updated[key];
+    } else {
+        updated[key] = value;
+    }
+    return updated;
+}
+
+function getSettingsFileCommand(target: vscode.ConfigurationTarget | undefined): string {
+    switch (target) {
+        case vscode.ConfigurationTarget.WorkspaceFolder:
+            return 'workbench.action.openFolderSettingsFile';
+        case vscode.ConfigurationTarget.Workspace:
+            return 'workbench.action.openWorkspaceSettingsFile';
+        default:
+            return 'workbench.action.openSettingsJson';
+    }
+}
+
+/**
+ * The profiles of the scope edits are saved to. Reading them through the same
+ * configuration keeps a folder's own list from being mixed with the window's.
+ */
+function getStoredProfiles(manager: ProfileManager): TestProfile[] {
+    return manager.getProfiles(manager.getProfilesTarget()?.folder);
+}
+
+/** Saves the profiles where they are defined, asking for a scope the first time. */
+async function save(manager: ProfileManager, profiles: TestProfile[]): Promise<boolean> {
+    let target = manager.getProfilesTarget();
+    if (target === undefined) {
+        if (!vscode.workspace.workspaceFolders?.length) {
+            target = { target: vscode.ConfigurationTarget.Global };
+        } else {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Workspace', description: 'Shared with everyone using this workspace', target: vscode.ConfigurationTarget.Workspace },
+                    { label: 'User', description: 'Available in all your workspaces', target: vscode.ConfigurationTarget.Global }
+                ],
+                { placeHolder: 'Where should the test profiles be saved?' }
+            );
+            if (!choice) {
+                return false;
+            }
+            target = { target: choice.target };
+        }
+    }
+
+    try {
+        await manager.saveProfiles(profiles, target);
+        return true;
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save test profiles: ${error}`);
+        return false;
+    }
+}
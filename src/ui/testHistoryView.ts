@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { TestHistory, TestHistoryEntry, TestHistoryRecord } from '../history/testHistory';
+
+const STATUS_ICONS: { [status in TestHistoryEntry['status']]: string } = {
+    pass: '$(pass)',
+    fail: '$(error)',
+    skip: '$(circle-slash)'
+};
+
+/**
+ * Lets the user pick a test (flaky ones first) and lists its recent outcomes.
+ * When a test id is given, its outcomes are shown directly.
+ */
+export async function showTestHistory(history: TestHistory, testId?: string): Promise<void> {
+    await history.whenLoaded();
+
+    let record = testId ? history.getRecord(testId) : undefined;
+    if (testId && !record) {
+        vscode.window.showInformationMessage('No history recorded for this test yet.');
+        return;
+    }
+
+    if (!record) {
+        const records = history.getRecords();
+        if (records.length === 0) {
+            vscode.window.showInformationMessage('No test history recorded yet.');
+            return;
+        }
+
+        const items = records
+            .map(r => ({ record: r, flaky: history.isFlaky(r.id) }))
+            .sort((a, b) => Number(b.flaky) - Number(a.flaky) || b.record.entries[0].timestamp - a.record.entries[0].timestamp)
+            .map(({ record: r, flaky }) => ({
+                label: `${flaky ? '$(warning) ' : ''}${r.name}`,
+                description: r.entries.slice(0, 10).map(e => STATUS_ICONS[e.status]).join(''),
+                detail: r.id.substring(0, r.id.length - r.name.length - 1),
+                record: r
+            }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a test to show its history',
+            matchOnDetail: true
+        });
+        if (!selected) {
+            return;
+        }
+        record = selected.record;
+    }
+
+    await showRecord(history, record);
+}
+
+async function showRecord(history: TestHistory, record: TestHistoryRecord): Promise<void> {
+    const items: vscode.QuickPickItem[] = record.entries.map(entry => ({
+        label: `${STATUS_ICONS[entry.status]} ${entry.status}`,
+        description: [
+            entry.duration !== undefined ? `${Math.round(entry.duration)}ms` : undefined,
+            entry.profile,
+            entry.commit ? `${entry.commit.substring(0, 8)}${entry.worktree ? ' (modified)' : ''}` : undefined
+        ].filter(Boolean).join(' · '),
+        detail: new Date(entry.timestamp).toLocaleString()
+    }));
+
+    await vscode.window.showQuickPick(items, {
+        placeHolder: `${record.name}${history.isFlaky(record.id) ? ' (flaky)' : ''} - last ${record.entries.length} runs`
+    });
+}
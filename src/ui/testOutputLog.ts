@@ -0,0 +1,121 @@
+import { FilterMode } from './outputFilter';
+
+type TestStatus = 'pass' | 'fail' | 'skip';
+
+interface OutputLines {
+    lines: string[];
+    // Earliest lines dropped to stay within the cap
+    dropped: number;
+}
+
+interface TestOutputRecord extends OutputLines {
+    pkg: string;
+    name: string;
+    status?: TestStatus;
+}
+
+/**
+ * Keeps the per-test output of the last run so the output channel can be
+ * re-rendered when the output filter changes, without re-running tests.
+ * Output is capped per test to keep memory bounded on large suites; a
+ * marker line takes the place of the dropped earlier lines.
+ */
+export class TestOutputLog {
+    private tests: Map<string, TestOutputRecord> = new Map();
+    private packageOutput: Map<string, OutputLines> = new Map();
+
+    constructor(private maxLinesPerTest: number) {}
+
+    appendTestOutput(testId: string, pkg: string, name: string, output: string): void {
+        let record = this.tests.get(testId);
+        if (!record) {
+            record = { pkg, name, lines: [], dropped: 0 };
+            this.tests.set(testId, record);
+        }
+        this.append(record, output);
+    }
+
+    appendPackageOutput(pkg: string, output: string): void {
+        let record = this.packageOutput.get(pkg);
+        if (!record) {
+            record = { lines: [], dropped: 0 };
+            this.packageOutput.set(pkg, record);
+        }
+        this.append(record, output);
+    }
+
+    setStatus(testId: string, status: TestStatus): void {
+        const record = this.tests.get(testId);
+        if (record) {
+            record.status = status;
+        }
+    }
+
+    /** The kept output of a test, preceded by a marker if earlier lines were dropped. */
+    getTestOutput(testId: string): string[] {
+        const record = this.tests.get(testId);
+        return record ? withTruncationMarker(record) : [];
+    }
+
+    /**
+     * Renders the recorded output for the given filter, grouped by package.
+     * Package-level output (build errors, ok/FAIL summaries) is always shown.
+     */
+    render(filter: FilterMode, shouldShowTest: (status: TestStatus) => boolean): string[] {
+        const byPackage = new Map<string, TestOutputRecord[]>();
+        let shown = 0;
+
+        for (const record of this.tests.values()) {
+            const visible = filter === FilterMode.All || (record.status !== undefined && shouldShowTest(record.status));
+            if (!byPackage.has(record.pkg)) {
+                byPackage.set(record.pkg, []);
+            }
+            if (visible) {
+                byPackage.get(record.pkg)!.push(record);
+                shown++;
+            }
+        }
+        for (const pkg of this.packageOutput.keys()) {
+            if (!byPackage.has(pkg)) {
+                byPackage.set(pkg, []);
+            }
+        }
+
+        const lines: string[] = [`[Filter: ${filter}] Showing ${shown} of ${this.tests.size} tests from the last run`];
+        for (const [pkg, records] of byPackage) {
+            for (const record of records) {
+                lines.push(...withTruncationMarker(record));
+            }
+            const packageRecord = this.packageOutput.get(pkg);
+            if (packageRecord) {
+                lines.push(...withTruncationMarker(packageRecord));
+            }
+        }
+
+        return lines;
+    }
+
+    get size(): number {
+        return this.tests.size;
+    }
+
+    clear(): void {
+        this.tests.clear();
+        this.packageOutput.clear();
+    }
+
+    private append(record: OutputLines, output: string): void {
+        record.lines.push(output);
+        if (record.lines.length > this.maxLinesPerTest) {
+            record.lines.shift();
+            record.dropped++;
+        }
+    }
+}
+
+function withTruncationMarker(record: OutputLines): string[] {
+    if (record.dropped === 0) {
+        return record.lines;
+    }
+    return [`… ${record.dropped} earlier line${record.dropped === 1 ? '' : 's'} truncated\n`, ...record.lines];
+}